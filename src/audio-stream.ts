@@ -0,0 +1,172 @@
+import * as fs from 'fs/promises'
+import { spawn } from 'child_process'
+import { Readable } from 'stream'
+import { readWAVStream, type WAVStream } from './wav'
+import { DecodeError, DecoderNotFoundError, isMissingBinary } from './errors'
+
+/**
+ * Audio to decode: a file path, the contents of a file, or a stream of them (e.g. an upload or an HTTP response)
+ */
+export type AudioSource = string | Buffer | Readable
+
+/**
+ * Audio decoded chunk by chunk
+ */
+export interface DecodedAudioStream {
+  /** Sample rate in Hz */
+  sampleRate: number
+  /** Number of channels */
+  channels: number
+  /** Samples of each channel, normalized to [-1.0, 1.0], for each decoded chunk */
+  chunks: AsyncIterable<Float32Array[]> | Iterable<Float32Array[]>
+}
+
+/**
+ * External program that decodes audio to a WAV on its stdout
+ */
+export interface DecoderProcess {
+  /** Name of the program */
+  binary: string
+  /**
+   * Build the program's arguments
+   * @param input Path of the file to decode, or undefined to read the audio from stdin
+   */
+  args: (input: string | undefined) => string[]
+  /** Message of the error thrown when the program isn't installed */
+  missingMessage: string
+}
+
+/** Most error output of a decoder kept for error messages, so progress output can't fill memory */
+const MAX_STDERR_LENGTH = 8192
+
+/**
+ * Describe a source in logs and errors: its path, or what kind of source it is
+ * @param source Audio source
+ */
+export function describeSource(source: AudioSource): string {
+  if (typeof source === 'string') {
+    return source
+  }
+  return Buffer.isBuffer(source) ? `<buffer of ${source.length} bytes>` : '<stream>'
+}
+
+/**
+ * Decode audio with an external program, reading its WAV output chunk by chunk
+ *
+ * Files are passed to the program by path; buffers and streams are piped to its stdin. The program only runs ahead
+ * of the consumer of the chunks by what fits in the pipe, so memory use doesn't depend on the length of the audio.
+ * Breaking out of the chunks stops the program.
+ * @param source Audio source
+ * @param decoder Program to run
+ * @returns Sample rate and channel count, available once the program has written its WAV header, and the chunks
+ */
+export async function decodeWithProcess(source: AudioSource, decoder: DecoderProcess): Promise<DecodedAudioStream> {
+  const { binary, args, missingMessage } = decoder
+  const filePath = typeof source === 'string' ? source : undefined
+
+  // First check if the file exists
+  if (filePath !== undefined) {
+    try {
+      await fs.access(filePath)
+    } catch (err) {
+      throw new DecodeError(`Audio file not found: ${filePath}`, { path: filePath, cause: err })
+    }
+  }
+
+  const child = spawn(binary, args(filePath))
+
+  let stderrOutput = ''
+  child.stderr.on('data', (data) => {
+    stderrOutput = (stderrOutput + data.toString()).slice(-MAX_STDERR_LENGTH)
+  })
+
+  const exited = new Promise<{ code: number | null; error?: Error }>((resolve) => {
+    child.on('error', (error) => resolve({ code: null, error }))
+    child.on('close', (code) => resolve({ code }))
+  })
+
+  // The program stops reading when it fails, which its exit code reports
+  child.stdin.on('error', () => {})
+
+  let input: Readable | undefined
+  let inputError: Error | undefined
+  if (typeof source === 'string') {
+    child.stdin.end()
+  } else {
+    input = Buffer.isBuffer(source) ? Readable.from([source]) : source
+    input.on('error', (err) => {
+      inputError = err
+      child.kill()
+    })
+    input.pipe(child.stdin)
+  }
+
+  const stop = (): void => {
+    input?.unpipe(child.stdin)
+    child.kill()
+  }
+
+  /** Wait for the program to exit and explain why decoding failed, if it did */
+  const failure = async (cause?: unknown): Promise<Error | undefined> => {
+    const { code, error } = await exited
+    if (error) {
+      return isMissingBinary(error)
+        ? new DecoderNotFoundError(missingMessage, { binary, path: filePath, cause: error })
+        : new DecodeError(`Failed to spawn ${binary}: ${error.message}`, { path: filePath, cause: error })
+    }
+    if (inputError) {
+      return new DecodeError(`Failed to read audio: ${inputError.message}`, { path: filePath, cause: inputError })
+    }
+    // A program stopped by `stop` exits without a code
+    if (code !== 0 && (code !== null || cause === undefined)) {
+      return new DecodeError(`${binary} exited with code ${code}. stderr: ${stderrOutput}`, {
+        path: filePath,
+        exitCode: code,
+        stderr: stderrOutput,
+      })
+    }
+    if (cause !== undefined) {
+      return new DecodeError(`Invalid audio received from ${binary}: ${(cause as Error).message}`, {
+        path: filePath,
+        stderr: stderrOutput,
+        cause,
+      })
+    }
+    return undefined
+  }
+
+  let wav: WAVStream
+  try {
+    // The program can't know the length of its output in advance when writing to a pipe
+    wav = await readWAVStream(child.stdout, { readToEnd: true })
+  } catch (error) {
+    // A program that failed has closed its output; one writing something other than WAV has to be stopped
+    if (!child.stdout.readableEnded) {
+      stop()
+    }
+    throw await failure(error)
+  }
+
+  const chunks = async function* (): AsyncGenerator<Float32Array[]> {
+    let completed = false
+    try {
+      yield* wav.chunks
+      completed = true
+    } catch (error) {
+      stop()
+      throw await failure(error)
+    } finally {
+      // Stop the program when the consumer breaks out early
+      if (!completed) {
+        stop()
+      }
+    }
+
+    const error = await failure()
+    if (error) {
+      throw error
+    }
+  }
+
+  return { sampleRate: wav.format.sampleRate, channels: wav.format.channels, chunks: chunks() }
+}
@@ -0,0 +1,245 @@
+import { VAD, type SpeechSegment, type VADOptions } from './vad'
+import { logger } from './logger'
+import { EncodeError, InvalidOptionsError } from './errors'
+
+/**
+ * How to combine the channels of multichannel audio into a single channel
+ *
+ * - `mean`: average all channels
+ * - `max-energy`: for each 20ms window, take the channel with the most energy
+ * - `{ channel }`: use a single channel (0-based)
+ */
+export type DownmixStrategy = 'mean' | 'max-energy' | { channel: number }
+
+/**
+ * How to run the VAD on multichannel audio: downmix to one channel first, or (`separate`) run an independent VAD
+ * state on each channel and label the segments with their channel index
+ */
+export type ChannelMode = DownmixStrategy | 'separate'
+
+/** Window length used by the `max-energy` downmix strategy, in milliseconds */
+const MAX_ENERGY_WINDOW_MS = 20
+
+/**
+ * Options for VAD processing of decoded audio (no file saving)
+ */
+export interface ProcessAudioOptions extends Partial<VADOptions> {
+  /** Optional pre-initialized VAD instance */
+  vadInstance?: VAD
+  /** How to handle multichannel audio (defaults to 'mean') */
+  channelMode?: ChannelMode
+}
+
+/**
+ * Result of processing decoded audio for VAD (no file saving)
+ */
+export interface ProcessAudioResult {
+  /** Detected speech segments */
+  segments: SpeechSegment[]
+  /** Total VAD processing time in milliseconds */
+  processingTime: number
+  /** Original audio data, downmixed to mono for multichannel audio */
+  audioData: Float32Array
+  /** Original audio data of each channel */
+  channelData: Float32Array[]
+  /** Original sample rate */
+  sampleRate: number
+}
+
+/**
+ * Concatenates multiple Float32Arrays into a single array
+ */
+export const concatArrays = (arrays: Float32Array[]): Float32Array => {
+  const sizes = arrays.reduce(
+    (out, next) => {
+      out.push((out.at(-1) as number) + next.length)
+      return out
+    },
+    [0],
+  )
+
+  const outArray = new Float32Array(sizes.at(-1) as number)
+  arrays.forEach((arr, index) => {
+    const place = sizes[index]
+    outArray.set(arr, place)
+  })
+
+  return outArray
+}
+
+/**
+ * Combine the channels of multichannel audio into a single channel
+ *
+ * @param channelData Audio samples of each channel
+ * @param strategy How to combine the channels
+ * @param sampleRate Sample rate of the audio in Hz (used by the `max-energy` strategy)
+ * @returns Mono audio samples
+ */
+export function downmix(channelData: Float32Array[], strategy: DownmixStrategy, sampleRate: number): Float32Array {
+  if (typeof strategy === 'object') {
+    const channel = channelData[strategy.channel]
+    if (!channel) {
+      throw new InvalidOptionsError([
+        {
+          field: 'channelMode',
+          message: `channel ${strategy.channel} does not exist (audio has ${channelData.length} channels)`,
+        },
+      ])
+    }
+    return channel
+  }
+
+  if (channelData.length === 1) {
+    return channelData[0] as Float32Array
+  }
+
+  const frameCount = Math.min(...channelData.map((channel) => channel.length))
+  const mono = new Float32Array(frameCount)
+
+  if (strategy === 'mean') {
+    for (const channel of channelData) {
+      for (let i = 0; i < frameCount; i++) {
+        mono[i] = (mono[i] as number) + (channel[i] as number) / channelData.length
+      }
+    }
+    return mono
+  }
+
+  // max-energy: copy each window from its loudest channel
+  const windowSize = Math.max(1, Math.round((sampleRate * MAX_ENERGY_WINDOW_MS) / 1000))
+  for (let start = 0; start < frameCount; start += windowSize) {
+    const end = Math.min(start + windowSize, frameCount)
+
+    let loudest = channelData[0] as Float32Array
+    let maxEnergy = -1
+    for (const channel of channelData) {
+      let energy = 0
+      for (let i = start; i < end; i++) {
+        energy += (channel[i] as number) ** 2
+      }
+      if (energy > maxEnergy) {
+        maxEnergy = energy
+        loudest = channel
+      }
+    }
+
+    mono.set(loudest.subarray(start, end), start)
+  }
+
+  return mono
+}
+
+/**
+ * Run decoded audio through the VAD and collect the detected segments
+ *
+ * Multichannel audio is handled according to `options.channelMode`. In `separate` mode each channel gets its own
+ * VAD state, and the segments of all channels are returned sorted by start time and labelled with their channel.
+ * @param audio Mono audio samples, or the samples of each channel
+ * @param sampleRate Sample rate of the audio in Hz
+ * @param options Processing options
+ * @returns Processing results (segments, time, audio data, sample rate)
+ */
+export async function processAudioData(
+  audio: Float32Array | Float32Array[],
+  sampleRate: number,
+  options: ProcessAudioOptions = {},
+): Promise<ProcessAudioResult> {
+  const channelData = Array.isArray(audio) ? audio : [audio]
+  const channelMode = options.channelMode ?? 'mean'
+
+  // Use provided VAD instance or create a new one
+  const vad = options.vadInstance || (await VAD.create(options))
+
+  // Process the audio with the VAD
+  const startTime = Date.now()
+  const segments: SpeechSegment[] = []
+
+  if (channelMode === 'separate') {
+    // Run the channels one after another, each through a new session with a fresh model state
+    for (const [channel, samples] of channelData.entries()) {
+      for await (const segment of vad.createSession().run(samples, sampleRate)) {
+        segments.push({ ...segment, channel })
+      }
+    }
+    segments.sort((a, b) => a.start - b.start)
+  } else {
+    for await (const segment of vad.run(downmix(channelData, channelMode, sampleRate), sampleRate)) {
+      segments.push(segment)
+    }
+  }
+
+  const processingTime = Date.now() - startTime
+
+  return {
+    segments,
+    processingTime,
+    audioData: downmix(channelData, channelMode === 'separate' ? 'mean' : channelMode, sampleRate),
+    channelData,
+    sampleRate,
+  }
+}
+
+/**
+ * Extract segments from audio and join them with silence padding
+ *
+ * @param audioData Audio samples the segments refer to
+ * @param sampleRate Sample rate of the audio in Hz
+ * @param segments Array of { start: number, end: number } timestamps in milliseconds.
+ *                 Exact `startSample`/`endSample` indices are used instead when the segments carry them.
+ * @param paddingMs Padding duration in milliseconds to add at the start, end, and between segments
+ * @returns The padded, concatenated segment audio
+ */
+export function joinSegments(
+  audioData: Float32Array,
+  sampleRate: number,
+  segments: SpeechSegment[],
+  paddingMs: number,
+): Float32Array {
+  // Calculate padding samples based on the *original* sample rate
+  const paddingDurationSeconds = paddingMs / 1000
+  const paddingSamples = Math.floor(paddingDurationSeconds * sampleRate)
+  const silencePadding = new Float32Array(paddingSamples).fill(0)
+
+  const audioChunks: Float32Array[] = []
+
+  // Add initial padding
+  audioChunks.push(silencePadding)
+
+  // Extract and add segments with intermediate padding
+  segments.forEach((segment, index) => {
+    // Use the exact sample indices from the VAD when available, otherwise calculate them from the timestamps
+    const startSample = segment.startSample ?? Math.floor((segment.start / 1000) * sampleRate)
+    const endSample = segment.endSample ?? Math.floor((segment.end / 1000) * sampleRate)
+
+    if (startSample >= endSample || endSample > audioData.length || startSample < 0) {
+      logger.warn('Skipping segment with invalid timestamps', {
+        start: segment.start,
+        end: segment.end,
+        startSample,
+        endSample,
+        samples: audioData.length,
+      })
+      return // Skip invalid segment
+    }
+
+    const audioSegment = audioData.slice(startSample, endSample)
+    audioChunks.push(audioSegment)
+
+    // Add padding between segments (but not after the last one)
+    if (index < segments.length - 1) {
+      audioChunks.push(silencePadding)
+    }
+  })
+
+  // Add final padding
+  audioChunks.push(silencePadding)
+
+  // Check if any valid chunks were added
+  if (audioChunks.length <= 2) {
+    // Only initial and final padding means no valid segments
+    throw new EncodeError('No valid audio segments found to process.')
+  }
+
+  // Concatenate all chunks (padding + segments + padding)
+  return concatArrays(audioChunks)
+}
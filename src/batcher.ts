@@ -0,0 +1,123 @@
+import type { Silero, SileroState, SpeechProbabilities } from './models'
+import { InvalidOptionsError } from './errors'
+
+/** Default largest number of frames run through the model in one batch */
+export const DEFAULT_MAX_BATCH_SIZE = 64
+
+/**
+ * Frame waiting to be run through the model
+ */
+interface PendingFrame {
+  frame: Float32Array
+  state: SileroState
+  resolve: (probs: SpeechProbabilities) => void
+  reject: (error: unknown) => void
+}
+
+/**
+ * Batches frames from many streams into shared model inferences
+ *
+ * Frames submitted in the same tick of the event loop are run through the model in one `session.run` call, stacked
+ * along the batch dimension, with each stream keeping its own recurrent state. Only one batch runs at a time; frames
+ * submitted while it runs make up the next batch.
+ */
+export class InferenceBatcher {
+  /** Frames submitted since the last batch started */
+  private pending: PendingFrame[] = []
+
+  /** Whether a batch run is scheduled for the next turn of the event loop */
+  private scheduled = false
+
+  /** Whether batches are currently running */
+  private running = false
+
+  /**
+   * Creates a new batcher
+   * @param model Loaded model shared by all streams
+   * @param maxBatchSize Largest number of frames run in one inference
+   */
+  constructor(
+    private model: Silero,
+    private maxBatchSize: number = DEFAULT_MAX_BATCH_SIZE,
+  ) {
+    if (!Number.isInteger(maxBatchSize) || maxBatchSize < 1) {
+      throw new InvalidOptionsError([
+        { field: 'maxBatchSize', message: `should be a positive integer, got ${maxBatchSize}` },
+      ])
+    }
+  }
+
+  /**
+   * Run a frame through the model as part of the next batch
+   * @param state Recurrent state of the stream the frame belongs to, updated once the frame has run
+   * @param frame Audio frame at 16kHz
+   * @returns Speech probability scores of the frame
+   */
+  process(state: SileroState, frame: Float32Array): Promise<SpeechProbabilities> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ frame, state, resolve, reject })
+      this.schedule()
+    })
+  }
+
+  /**
+   * Run the pending frames on the next turn of the event loop, so frames submitted in the same tick share a batch
+   */
+  private schedule(): void {
+    if (this.scheduled || this.running) {
+      return
+    }
+
+    this.scheduled = true
+    setImmediate(() => {
+      this.scheduled = false
+      void this.flush()
+    })
+  }
+
+  /**
+   * Run batches until no frames are pending
+   */
+  private async flush(): Promise<void> {
+    this.running = true
+
+    try {
+      while (this.pending.length > 0) {
+        const batch = this.takeBatch()
+        try {
+          const probs = await this.model.processBatch(
+            batch.map(({ frame }) => frame),
+            batch.map(({ state }) => state),
+          )
+          batch.forEach(({ resolve }, index) => resolve(probs[index] as SpeechProbabilities))
+        } catch (error) {
+          batch.forEach(({ reject }) => reject(error))
+        }
+      }
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Take up to `maxBatchSize` pending frames of the same length, at most one per stream
+   */
+  private takeBatch(): PendingFrame[] {
+    const frameLength = (this.pending[0] as PendingFrame).frame.length
+    const batch: PendingFrame[] = []
+    const states = new Set<SileroState>()
+    const remaining: PendingFrame[] = []
+
+    for (const pending of this.pending) {
+      if (batch.length < this.maxBatchSize && pending.frame.length === frameLength && !states.has(pending.state)) {
+        batch.push(pending)
+        states.add(pending.state)
+      } else {
+        remaining.push(pending)
+      }
+    }
+
+    this.pending = remaining
+    return batch
+  }
+}
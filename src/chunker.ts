@@ -0,0 +1,313 @@
+import { VAD, TARGET_SAMPLE_RATE, type SpeechSegment } from './vad'
+import { Message } from './messages'
+import { getLogger } from './logger'
+import { downmix, type DownmixStrategy, type ProcessAudioOptions } from './audio'
+import { decodeAudioFile, type AudioDecoder } from './decoders'
+import { Resampler } from './resampler'
+import { hasPostProcessing, postProcessSegments, quietestPoint, type PostProcessContext } from './post-process'
+import { InvalidOptionsError, type OptionIssue } from './errors'
+
+/**
+ * Options for packing speech segments into chunks for speech recognition
+ */
+export interface ChunkOptions {
+  /** Longest chunk in seconds, overlap included (defaults to 30, the limit of Whisper) */
+  maxChunkDurationS?: number
+  /**
+   * Milliseconds of audio before each chunk (after the first) to include at its start (defaults to 0), so words cut
+   * at the boundary appear whole in one of the chunks. Must be under half of `maxChunkDurationS`
+   */
+  overlapMs?: number
+}
+
+/**
+ * Window of audio made up of neighbouring speech segments
+ */
+export interface SpeechChunk {
+  /** Start of the chunk in the original audio in milliseconds, including the overlap */
+  start: number
+  /** End of the chunk in the original audio in milliseconds */
+  end: number
+  /** Index of the first sample of the chunk in the input audio (at the input's sample rate) */
+  startSample?: number
+  /** Index one past the last sample of the chunk in the input audio (at the input's sample rate) */
+  endSample?: number
+  /** Parts of the speech segments inside the chunk, with times in the original audio */
+  segments: SpeechSegment[]
+  /** Audio of the chunk, at the target sample rate */
+  audio?: Float32Array
+}
+
+/**
+ * Options for detecting speech and cutting audio into chunks for speech recognition
+ *
+ * Post-processing options (`minSilenceDurationMs`, `minSpeechDurationMs`, `speechPadMs`) are applied to the detected
+ * segments before they are packed, also with a `vadInstance`.
+ */
+export interface ChunkAudioOptions extends Omit<ProcessAudioOptions, 'channelMode'>, ChunkOptions {
+  /** Sample rate of the chunk audio in Hz (defaults to 16000) */
+  targetSampleRate?: number
+  /** How to combine multichannel audio into one channel (defaults to 'mean') */
+  channelMode?: DownmixStrategy
+}
+
+/**
+ * Options for cutting an audio file into chunks for speech recognition
+ */
+export interface ChunkAudioFileOptions extends ChunkAudioOptions {
+  /** Decoder to use instead of picking one from the registry */
+  decoder?: AudioDecoder
+}
+
+/**
+ * Chunks of audio ready for speech recognition
+ */
+export interface ChunkAudioResult {
+  /** Chunks with their audio, sorted by time */
+  chunks: SpeechChunk[]
+  /** Speech segments the chunks were packed from */
+  segments: SpeechSegment[]
+  /** Sample rate of the chunk audio in Hz */
+  sampleRate: number
+}
+
+/**
+ * Greedily pack neighbouring speech segments into chunks of at most `maxChunkDurationS`
+ *
+ * A chunk runs from the start of its first segment to the end of its last, silence between them included. Segments
+ * are only cut when one alone is too long for a chunk, at the frame with the lowest speech probability in the second
+ * half of the chunk (or exactly at the limit when no frame probabilities are given). Overlapping segments, such as
+ * those of several channels, always go in the same chunk.
+ * @param segments Segments with `start`/`end` in milliseconds
+ * @param options Chunk length and overlap
+ * @param context Frame probabilities and sample rate of the audio
+ * @returns Chunks without audio, sorted by time
+ */
+export function chunkSegments(
+  segments: SpeechSegment[],
+  options: ChunkOptions = {},
+  context: PostProcessContext = {},
+): SpeechChunk[] {
+  validateChunkOptions(options)
+  const { maxChunkDurationS = 30, overlapMs = 0 } = options
+  const maxDurationMs = maxChunkDurationS * 1000
+
+  const sorted = [...segments].sort((a, b) => a.start - b.start)
+  const ranges: { start: number; end: number }[] = []
+  for (const { start, end } of sorted) {
+    const previous = ranges.at(-1)
+    if (previous && start < previous.end) {
+      previous.end = Math.max(previous.end, end)
+    } else {
+      ranges.push({ start, end })
+    }
+  }
+
+  const windows: { start: number; end: number }[] = []
+  for (const range of ranges) {
+    const current = windows.at(-1)
+    if (current && range.end - current.start <= maxDurationMs) {
+      current.end = range.end
+      continue
+    }
+
+    // Start a new chunk, cutting the segment while it is too long for one
+    let from = range.start
+    for (;;) {
+      const start = windows.length > 0 ? Math.max(0, from - overlapMs) : from
+      if (range.end - start <= maxDurationMs) {
+        windows.push({ start, end: range.end })
+        break
+      }
+      const cut = quietestPoint(start + maxDurationMs / 2, start + maxDurationMs, context) ?? start + maxDurationMs
+      windows.push({ start, end: cut })
+      from = cut
+    }
+  }
+
+  return windows.map(({ start, end }) => ({
+    start,
+    end,
+    ...(context.sampleRate !== undefined && {
+      startSample: Math.round((start * context.sampleRate) / 1000),
+      endSample: Math.round((end * context.sampleRate) / 1000),
+    }),
+    segments: sorted
+      .filter((segment) => segment.end > start && segment.start < end)
+      .map((segment) => clipSegment(segment, start, end, context.sampleRate)),
+  }))
+}
+
+/**
+ * Detect speech in audio and cut it into chunks for speech recognition, each no longer than `maxChunkDurationS`
+ *
+ * The VAD's frame probabilities decide where segments too long for one chunk are cut.
+ * @param audio Mono audio samples, or the samples of each channel
+ * @param sampleRate Sample rate of the audio in Hz
+ * @param options Chunking, VAD and post-processing options
+ * @returns Chunks with their audio at `targetSampleRate`, and the segments they were packed from
+ */
+export async function chunkAudio(
+  audio: Float32Array | Float32Array[],
+  sampleRate: number,
+  options: ChunkAudioOptions = {},
+): Promise<ChunkAudioResult> {
+  const { targetSampleRate = TARGET_SAMPLE_RATE } = options
+  const issues = findChunkIssues(options)
+  if (!Number.isInteger(targetSampleRate) || targetSampleRate <= 0) {
+    issues.push({ field: 'targetSampleRate', message: `should be a positive integer, got ${targetSampleRate}` })
+  }
+  if ((options.channelMode as string) === 'separate') {
+    issues.push({ field: 'channelMode', message: 'separate is not supported when chunking; use a downmix strategy' })
+  }
+  if (issues.length > 0) {
+    throw new InvalidOptionsError(issues)
+  }
+
+  const audioData = downmix(Array.isArray(audio) ? audio : [audio], options.channelMode ?? 'mean', sampleRate)
+
+  // Use provided VAD instance or create a new one
+  const vad = options.vadInstance || (await VAD.create(options))
+
+  const probabilities: number[] = []
+  let detected: SpeechSegment[] = []
+  let frameMs: number | undefined
+  for await (const event of vad.events(audioData, sampleRate, true)) {
+    if (event.msg === Message.AudioFrame) {
+      probabilities[event.frameIndex] = event.probability as number
+      // Frames start at multiples of the frame duration
+      frameMs ??= event.frameIndex > 0 ? event.time / event.frameIndex : undefined
+    } else if (event.segment) {
+      const { audio: segmentAudio, ...segment } = event.segment
+      detected.push(segment)
+    }
+  }
+
+  const context: PostProcessContext = {
+    probabilities,
+    frameMs,
+    duration: (audioData.length / sampleRate) * 1000,
+    sampleRate,
+  }
+  if (hasPostProcessing(options)) {
+    detected = postProcessSegments(detected, options, context)
+  }
+
+  const chunks = chunkSegments(detected, options, context)
+  const output =
+    targetSampleRate === sampleRate ? audioData : resample(audioData, sampleRate, targetSampleRate, options)
+  for (const chunk of chunks) {
+    chunk.audio = output.slice(
+      Math.round((chunk.start * targetSampleRate) / 1000),
+      Math.round((chunk.end * targetSampleRate) / 1000),
+    )
+  }
+
+  getLogger(options.logger).debug('Audio chunked', { segments: detected.length, chunks: chunks.length })
+  return { chunks, segments: detected, sampleRate: targetSampleRate }
+}
+
+/**
+ * Decode an audio file in any registered format, detect speech in it and cut it into chunks for speech recognition
+ * @param filePath Path to the audio file
+ * @param options Chunking, VAD and post-processing options
+ * @returns Chunks with their audio at `targetSampleRate`, and the segments they were packed from
+ */
+export async function chunkAudioFile(filePath: string, options: ChunkAudioFileOptions = {}): Promise<ChunkAudioResult> {
+  try {
+    const { audioData, channelData, sampleRate } = await decodeAudioFile(filePath, options.decoder)
+    return await chunkAudio(channelData ?? audioData, sampleRate, options)
+  } catch (error) {
+    getLogger(options.logger).error('Error chunking audio file', { path: filePath, error })
+    throw error
+  }
+}
+
+/**
+ * Find every problem with the chunk options
+ */
+const findChunkIssues = (options: ChunkOptions): OptionIssue[] => {
+  const issues: OptionIssue[] = []
+  const { maxChunkDurationS = 30, overlapMs = 0 } = options
+
+  if (typeof maxChunkDurationS !== 'number' || !(maxChunkDurationS > 0) || !Number.isFinite(maxChunkDurationS)) {
+    issues.push({ field: 'maxChunkDurationS', message: `should be a positive number, got ${maxChunkDurationS}` })
+  }
+  if (typeof overlapMs !== 'number' || !(overlapMs >= 0)) {
+    issues.push({ field: 'overlapMs', message: `should be a non-negative number, got ${overlapMs}` })
+  } else if (issues.length === 0 && overlapMs * 2 >= maxChunkDurationS * 1000) {
+    issues.push({
+      field: 'overlapMs',
+      message: `should be under half of maxChunkDurationS (${maxChunkDurationS}s), got ${overlapMs}`,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Check the chunk options, throwing an `InvalidOptionsError` listing every problem
+ */
+const validateChunkOptions = (options: ChunkOptions): void => {
+  const issues = findChunkIssues(options)
+  if (issues.length > 0) {
+    throw new InvalidOptionsError(issues)
+  }
+}
+
+/**
+ * Limit a segment (and its onset and offset) to the time range of a chunk
+ */
+const clipSegment = (
+  segment: SpeechSegment,
+  start: number,
+  end: number,
+  sampleRate: number | undefined,
+): SpeechSegment => {
+  const { audio, startSample, endSample, onset, offset, ...rest } = segment
+  const clip = (time: number): number => Math.min(end, Math.max(start, time))
+
+  // Onset and offset are only copied when the segment has them, keeping its shape
+  const clipped: SpeechSegment = {
+    ...rest,
+    start: Math.max(start, segment.start),
+    end: Math.min(end, segment.end),
+    ...(onset !== undefined && { onset: clip(onset) }),
+    ...(offset !== undefined && { offset: clip(offset) }),
+  }
+  if (sampleRate !== undefined) {
+    clipped.startSample = Math.round((clipped.start * sampleRate) / 1000)
+    clipped.endSample = Math.round((clipped.end * sampleRate) / 1000)
+  }
+  return clipped
+}
+
+/**
+ * Resample the whole audio to the target sample rate
+ */
+const resample = (
+  audioData: Float32Array,
+  sampleRate: number,
+  targetSampleRate: number,
+  { resampleQuality }: ChunkAudioOptions,
+): Float32Array => {
+  const length = Math.round((audioData.length * targetSampleRate) / sampleRate)
+  if (length === 0) {
+    return new Float32Array(0)
+  }
+
+  const resampler = new Resampler({
+    nativeSampleRate: sampleRate,
+    targetSampleRate,
+    targetFrameSize: length,
+    quality: resampleQuality,
+  })
+
+  // The resampler holds back the end of the audio until it has seen the samples after it, so follow it with silence
+  const silence = new Float32Array(Math.ceil(sampleRate / 100))
+  let frames = resampler.process(audioData)
+  while (frames.length === 0) {
+    frames = resampler.process(silence)
+  }
+  return frames[0] as Float32Array
+}
@@ -0,0 +1,710 @@
+#!/usr/bin/env node
+/**
+ * Command-line interface for detecting speech in audio files
+ *
+ * vad-node detect <files...>   Print the speech segments of each file
+ * vad-node trim <files...>     Write each file with the silence between speech segments removed
+ * vad-node stats <files...>    Print speech statistics for each file
+ */
+
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { parseArgs } from 'util'
+import { VAD, type SpeechSegment, type VADOptions } from './vad'
+import { processAudioFile } from './decoders'
+import { joinSegments, type ChannelMode, type ProcessAudioResult } from './audio'
+import { saveWAVFile } from './wav'
+import { saveMP3File } from './mp3'
+import { formatSegments, SEGMENT_FORMAT_EXTENSIONS, SEGMENT_FORMATS, type SegmentFormat } from './formats'
+import { DecodeError, EncodeError, InvalidOptionsError } from './errors'
+import { consoleLogger, setLogger } from './logger'
+import type { ModelVersion } from './models'
+import type { ResampleQuality } from './resampler'
+
+const USAGE = `Usage: vad-node <command> [options] <files...>
+
+Commands:
+  detect    Print the speech segments of each file
+  trim      Write each file with the silence between speech segments removed
+  stats     Print speech statistics for each file
+
+Files can be glob patterns (quote them to keep the shell from expanding them): 'calls/**/*.mp3'
+
+Output options:
+  -f, --format <format>                  detect: json, csv, srt, vtt, rttm, audacity or textgrid (default json)
+                                         stats: text, json or csv (default text)
+  -o, --output <path>                    detect/stats: write to a file instead of stdout (a directory for
+                                         srt, vtt, audacity or textgrid with several files); trim: output file,
+                                         or directory for several files
+      --trim <path>                      detect: also write the trimmed audio (file, or directory for several files)
+      --padding <ms>                     Silence between the joined segments of trimmed audio (default 500)
+  -v, --verbose                          Log progress to stderr
+  -h, --help                             Show this help
+
+VAD options:
+      --model <path>                     ONNX model file (default: the bundled silero_vad.onnx)
+      --model-version <version>          v4, v5 or auto (default auto)
+      --frame-samples <n>                Samples per 16kHz frame (default 1536 for v4, 512 for v5)
+      --positive-speech-threshold <p>    Probability over which a frame is speech (default 0.5)
+      --negative-speech-threshold <p>    Probability under which a frame is silence (default 0.35)
+      --redemption-frames <n>            Silent frames that end a segment (default 8)
+      --pre-speech-pad-frames <n>        Frames of audio kept before speech starts (default 1)
+      --min-speech-frames <n>            Speech frames a segment needs to count (default 3)
+      --redemption-ms <ms>               Silence that ends a segment, instead of --redemption-frames
+      --pre-speech-pad-ms <ms>           Audio kept before speech starts, instead of --pre-speech-pad-frames
+      --min-speech-ms <ms>               Speech a segment needs to count, instead of --min-speech-frames
+      --min-silence-duration-ms <ms>     Merge segments separated by less silence (default 0)
+      --min-speech-duration-ms <ms>      Drop shorter segments, after merging (default 0)
+      --speech-pad-ms <ms>               Audio added around each segment, without overlaps (default 0)
+      --max-speech-duration-s <s>        Split longer segments at their quietest frame (default: no limit)
+      --resample-quality <quality>       low, medium or high (default medium)
+      --channel-mode <mode>              mean, max-energy, separate or a channel index (default mean)
+
+Exit codes: 0 on success, 1 if any file failed, 2 on invalid usage.
+`
+
+/** Segment formats that hold the segments of a single file, written to one output file per input file */
+const SINGLE_FILE_FORMATS: SegmentFormat[] = ['srt', 'vtt', 'audacity', 'textgrid']
+
+/** Formats accepted by the stats command */
+const STATS_FORMATS = ['text', 'json', 'csv'] as const
+type StatsFormat = (typeof STATS_FORMATS)[number]
+
+/**
+ * Error in the command line itself, reported with the usage and exit code 2
+ */
+class UsageError extends Error {}
+
+/**
+ * Parsed command-line options
+ */
+interface CLIOptions {
+  format?: string
+  output?: string
+  trim?: string
+  padding: number
+  verbose: boolean
+  vadOptions: Partial<VADOptions>
+  channelMode?: ChannelMode
+}
+
+/**
+ * Speech segments detected in one file
+ */
+interface FileSegments {
+  file: string
+  segments: SpeechSegment[]
+  /** Duration of the audio in milliseconds */
+  duration: number
+}
+
+/**
+ * Speech statistics of one file
+ */
+interface FileStats {
+  file: string
+  /** Duration of the audio in seconds */
+  duration: number
+  /** Total duration of speech in seconds (overlapping segments of different channels counted once) */
+  speech: number
+  /** Fraction of the audio that is speech */
+  speechRatio: number
+  segments: number
+  /** Duration of the longest segment in seconds */
+  longestSegment: number
+  /** Mean segment duration in seconds */
+  meanSegment: number
+  /** VAD processing time in milliseconds */
+  processingTime: number
+}
+
+/**
+ * Run the CLI
+ * @param args Command-line arguments without the node binary and script path
+ * @returns Process exit code
+ */
+async function main(args: string[]): Promise<number> {
+  let command: string | undefined
+  let files: string[]
+  let options: CLIOptions
+
+  try {
+    const parsed = parseCommandLine(args)
+    if (parsed.help) {
+      process.stdout.write(USAGE)
+      return 0
+    }
+    ;({ command, options } = parsed)
+    files = await expandFiles(parsed.patterns)
+
+    const format = options.format as SegmentFormat
+    if (command === 'detect' && SINGLE_FILE_FORMATS.includes(format) && files.length > 1 && !options.output) {
+      throw new UsageError(`${format} output of several files needs an --output directory`)
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`vad-node: ${error.message}\n\n${USAGE}`)
+      return 2
+    }
+    process.stderr.write(`vad-node: ${errorMessage(error)}\n`)
+    return 1
+  }
+
+  // Library progress messages go to stderr with --verbose, and nowhere otherwise, so stdout stays machine-readable
+  if (options.verbose) {
+    setLogger(consoleLogger('debug'))
+  }
+
+  let vad: VAD
+  try {
+    vad = await VAD.create(options.vadOptions)
+  } catch (error) {
+    process.stderr.write(`vad-node: ${errorMessage(error)}\n`)
+    return error instanceof InvalidOptionsError ? 2 : 1
+  }
+
+  switch (command) {
+    case 'detect':
+      return detect(vad, files, options)
+    case 'trim':
+      return trim(vad, files, options)
+    default:
+      return stats(vad, files, options)
+  }
+}
+
+/**
+ * Print (or write) the speech segments of each file, optionally writing the trimmed audio too
+ */
+async function detect(vad: VAD, files: string[], options: CLIOptions): Promise<number> {
+  const format = (options.format ?? 'json') as SegmentFormat
+  const perFile = SINGLE_FILE_FORMATS.includes(format) && files.length > 1
+
+  const results: FileSegments[] = []
+  let failed = false
+
+  for (const file of files) {
+    try {
+      const result = await processFile(vad, file, options)
+      const duration = (result.audioData.length / result.sampleRate) * 1000
+      results.push({ file, segments: result.segments, duration })
+
+      if (perFile) {
+        const outputPath = path.join(
+          options.output as string,
+          path.parse(file).name + SEGMENT_FORMAT_EXTENSIONS[format],
+        )
+        await writeOutput(
+          formatSegments(result.segments, format, { fileId: path.parse(file).name, duration }),
+          outputPath,
+        )
+      }
+      if (options.trim) {
+        await saveTrimmed(result, options.trim, file, files.length > 1, options.padding)
+      }
+    } catch (error) {
+      failed = true
+      process.stderr.write(`vad-node: ${file}: ${errorMessage(error)}\n`)
+    }
+  }
+
+  if (!perFile) {
+    await writeOutput(formatResults(results, format), options.output)
+  }
+
+  return failed ? 1 : 0
+}
+
+/**
+ * Write each file with only its speech segments, joined with silence padding
+ */
+async function trim(vad: VAD, files: string[], options: CLIOptions): Promise<number> {
+  let failed = false
+
+  for (const file of files) {
+    try {
+      const result = await processFile(vad, file, options)
+      if (result.segments.length === 0) {
+        throw new EncodeError('No speech detected')
+      }
+      await saveTrimmed(result, options.output as string, file, files.length > 1, options.padding)
+    } catch (error) {
+      failed = true
+      process.stderr.write(`vad-node: ${file}: ${errorMessage(error)}\n`)
+    }
+  }
+
+  return failed ? 1 : 0
+}
+
+/**
+ * Print speech statistics for each file
+ */
+async function stats(vad: VAD, files: string[], options: CLIOptions): Promise<number> {
+  const format = (options.format ?? 'text') as StatsFormat
+  const rows: FileStats[] = []
+  let failed = false
+
+  for (const file of files) {
+    try {
+      rows.push(fileStats(file, await processFile(vad, file, options)))
+    } catch (error) {
+      failed = true
+      process.stderr.write(`vad-node: ${file}: ${errorMessage(error)}\n`)
+    }
+  }
+
+  await writeOutput(formatStats(rows, format), options.output)
+  return failed ? 1 : 0
+}
+
+/**
+ * Decode a file and run it through the VAD
+ */
+async function processFile(vad: VAD, file: string, options: CLIOptions): Promise<ProcessAudioResult> {
+  return processAudioFile(file, { vadInstance: vad, channelMode: options.channelMode })
+}
+
+/**
+ * Join the speech segments of a processed file and save them as MP3 (for `.mp3` paths) or WAV
+ * @param result Processing result of the file
+ * @param output Output file, or directory when processing several files (or when it is an existing directory)
+ * @param file Input file, used to name the output in a directory
+ * @param multiple Whether several files are being processed
+ * @param paddingMs Silence before, between and after the segments
+ */
+async function saveTrimmed(
+  result: ProcessAudioResult,
+  output: string,
+  file: string,
+  multiple: boolean,
+  paddingMs: number,
+): Promise<void> {
+  let outputPath = output
+  if (multiple || (await isDirectory(output))) {
+    // Keep MP3 as MP3 and write everything else as WAV
+    const extension = path.extname(file).toLowerCase() === '.mp3' ? '.mp3' : '.wav'
+    outputPath = path.join(output, path.parse(file).name + extension)
+  }
+
+  await fs.mkdir(path.dirname(outputPath), { recursive: true })
+  const audio = joinSegments(result.audioData, result.sampleRate, result.segments, paddingMs)
+
+  if (path.extname(outputPath).toLowerCase() === '.mp3') {
+    await saveMP3File(audio, result.sampleRate, outputPath)
+  } else {
+    await saveWAVFile(audio, result.sampleRate, outputPath)
+  }
+}
+
+/**
+ * Format the segments of all files
+ */
+function formatResults(results: FileSegments[], format: SegmentFormat): string {
+  if (format === 'json') {
+    const files = results.map(({ file, segments }) => ({ file, segments: segments.map(({ audio, ...rest }) => rest) }))
+    return JSON.stringify(files, null, 2) + '\n'
+  }
+
+  const multiple = results.length > 1
+  return results
+    .map(({ file, segments, duration }, index) =>
+      formatSegments(segments, format, {
+        // Label rows with their file when there are several, and only print the CSV header once
+        fileId: format === 'rttm' || format === 'vtt' ? path.parse(file).name : multiple ? file : undefined,
+        header: index === 0,
+        duration,
+      }),
+    )
+    .join('')
+}
+
+/**
+ * Compute the speech statistics of a processed file
+ */
+function fileStats(file: string, result: ProcessAudioResult): FileStats {
+  const duration = result.audioData.length / result.sampleRate
+  const durations = result.segments.map((segment) => (segment.end - segment.start) / 1000)
+
+  // Merge overlapping segments (from different channels) so overlapping speech is only counted once
+  let speech = 0
+  let coveredUntil = 0
+  for (const segment of [...result.segments].sort((a, b) => a.start - b.start)) {
+    const start = Math.max(segment.start, coveredUntil)
+    if (segment.end > start) {
+      speech += (segment.end - start) / 1000
+      coveredUntil = segment.end
+    }
+  }
+
+  return {
+    file,
+    duration: round(duration),
+    speech: round(speech),
+    speechRatio: round(duration > 0 ? speech / duration : 0),
+    segments: durations.length,
+    longestSegment: round(Math.max(0, ...durations)),
+    meanSegment: round(durations.length > 0 ? durations.reduce((sum, d) => sum + d, 0) / durations.length : 0),
+    processingTime: result.processingTime,
+  }
+}
+
+/**
+ * Format the statistics of all files
+ */
+function formatStats(rows: FileStats[], format: StatsFormat): string {
+  if (format === 'json') {
+    return JSON.stringify(rows, null, 2) + '\n'
+  }
+
+  const columns = Object.keys(rows[0] ?? fileStats('', emptyResult())) as (keyof FileStats)[]
+  if (format === 'csv') {
+    const escape = (value: string | number) =>
+      typeof value === 'string' && /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : String(value)
+    return [columns.join(','), ...rows.map((row) => columns.map((column) => escape(row[column])).join(','))]
+      .map((line) => line + '\n')
+      .join('')
+  }
+
+  // Text: aligned columns
+  const table = [columns, ...rows.map((row) => columns.map((column) => String(row[column])))]
+  const widths = columns.map((_, index) => Math.max(...table.map((line) => (line[index] as string).length)))
+  return table.map((line) => line.map((cell, index) => cell.padEnd(widths[index] as number)).join('  ') + '\n').join('')
+}
+
+/**
+ * Result with no audio, used to list the statistics columns when no file succeeded
+ */
+function emptyResult(): ProcessAudioResult {
+  return { segments: [], processingTime: 0, audioData: new Float32Array(0), channelData: [], sampleRate: 1 }
+}
+
+/**
+ * Parse the command line into the command, the file patterns and the options
+ */
+function parseCommandLine(args: string[]): {
+  command?: string
+  patterns: string[]
+  options: CLIOptions
+  help: boolean
+} {
+  let parsed
+  try {
+    parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', short: 'f' },
+        output: { type: 'string', short: 'o' },
+        trim: { type: 'string' },
+        padding: { type: 'string' },
+        verbose: { type: 'boolean', short: 'v', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+        model: { type: 'string' },
+        'model-version': { type: 'string' },
+        'frame-samples': { type: 'string' },
+        'positive-speech-threshold': { type: 'string' },
+        'negative-speech-threshold': { type: 'string' },
+        'redemption-frames': { type: 'string' },
+        'pre-speech-pad-frames': { type: 'string' },
+        'min-speech-frames': { type: 'string' },
+        'redemption-ms': { type: 'string' },
+        'pre-speech-pad-ms': { type: 'string' },
+        'min-speech-ms': { type: 'string' },
+        'min-silence-duration-ms': { type: 'string' },
+        'min-speech-duration-ms': { type: 'string' },
+        'speech-pad-ms': { type: 'string' },
+        'max-speech-duration-s': { type: 'string' },
+        'resample-quality': { type: 'string' },
+        'channel-mode': { type: 'string' },
+      },
+    })
+  } catch (error) {
+    throw new UsageError(errorMessage(error))
+  }
+
+  const { values, positionals } = parsed
+  const [command, ...patterns] = positionals
+
+  if (values.help) {
+    return { patterns, options: {} as CLIOptions, help: true }
+  }
+  if (!command) {
+    throw new UsageError('Missing command')
+  }
+  if (!['detect', 'trim', 'stats'].includes(command)) {
+    throw new UsageError(`Unknown command: ${command}`)
+  }
+  if (patterns.length === 0) {
+    throw new UsageError('No input files given')
+  }
+
+  // Command-specific checks
+  const formats: readonly string[] = command === 'stats' ? STATS_FORMATS : command === 'detect' ? SEGMENT_FORMATS : []
+  if (values.format !== undefined && !formats.includes(values.format)) {
+    throw new UsageError(`Unsupported format for ${command}: ${values.format}`)
+  }
+  if (command === 'trim' && !values.output) {
+    throw new UsageError('trim needs an --output file or directory')
+  }
+
+  const vadOptions: Partial<VADOptions> = { validation: 'strict' }
+  if (values.model !== undefined) vadOptions.modelPath = values.model
+  if (values['model-version'] !== undefined) {
+    vadOptions.modelVersion = oneOf(values['model-version'], ['v4', 'v5', 'auto'], 'model-version') as
+      | ModelVersion
+      | 'auto'
+  }
+  if (values['resample-quality'] !== undefined) {
+    vadOptions.resampleQuality = oneOf(
+      values['resample-quality'],
+      ['low', 'medium', 'high'],
+      'resample-quality',
+    ) as ResampleQuality
+  }
+
+  const numbers = {
+    frameSamples: ['frame-samples', true],
+    positiveSpeechThreshold: ['positive-speech-threshold', false],
+    negativeSpeechThreshold: ['negative-speech-threshold', false],
+    redemptionFrames: ['redemption-frames', true],
+    preSpeechPadFrames: ['pre-speech-pad-frames', true],
+    minSpeechFrames: ['min-speech-frames', true],
+    redemptionMs: ['redemption-ms', false],
+    preSpeechPadMs: ['pre-speech-pad-ms', false],
+    minSpeechMs: ['min-speech-ms', false],
+    minSilenceDurationMs: ['min-silence-duration-ms', false],
+    minSpeechDurationMs: ['min-speech-duration-ms', false],
+    speechPadMs: ['speech-pad-ms', false],
+    maxSpeechDurationS: ['max-speech-duration-s', false],
+  } as const
+  for (const [option, [flag, integer]] of Object.entries(numbers)) {
+    const value = values[flag]
+    if (value !== undefined) {
+      vadOptions[option as keyof typeof numbers] = parseNumber(value, flag, integer)
+    }
+  }
+  // Keep the default gap to the positive threshold when only that one is given
+  if (vadOptions.positiveSpeechThreshold !== undefined && vadOptions.negativeSpeechThreshold === undefined) {
+    vadOptions.negativeSpeechThreshold = Math.max(0, vadOptions.positiveSpeechThreshold - 0.15)
+  }
+
+  return {
+    command,
+    patterns,
+    help: false,
+    options: {
+      format: values.format,
+      output: values.output,
+      trim: values.trim,
+      padding: values.padding !== undefined ? parseNumber(values.padding, 'padding', false) : 500,
+      verbose: values.verbose as boolean,
+      vadOptions,
+      channelMode: values['channel-mode'] !== undefined ? parseChannelMode(values['channel-mode']) : undefined,
+    },
+  }
+}
+
+/**
+ * Parse a non-negative number option
+ */
+function parseNumber(value: string, flag: string, integer: boolean): number {
+  const number = Number(value)
+  if (value.trim() === '' || !Number.isFinite(number) || number < 0 || (integer && !Number.isInteger(number))) {
+    throw new UsageError(`--${flag} should be a non-negative ${integer ? 'integer' : 'number'}, got ${value}`)
+  }
+  return number
+}
+
+/**
+ * Check that an option has one of the allowed values
+ */
+function oneOf(value: string, allowed: string[], flag: string): string {
+  if (!allowed.includes(value)) {
+    throw new UsageError(`--${flag} should be one of ${allowed.join(', ')}, got ${value}`)
+  }
+  return value
+}
+
+/**
+ * Parse the --channel-mode option
+ */
+function parseChannelMode(value: string): ChannelMode {
+  if (/^\d+$/.test(value)) {
+    return { channel: Number(value) }
+  }
+  return oneOf(value, ['mean', 'max-energy', 'separate'], 'channel-mode') as ChannelMode
+}
+
+/**
+ * Expand the glob patterns among the input files
+ */
+async function expandFiles(patterns: string[]): Promise<string[]> {
+  const files: string[] = []
+  for (const pattern of patterns) {
+    const matches = await expandGlob(pattern)
+    if (matches.length === 0) {
+      throw new DecodeError(`No files match ${pattern}`, { path: pattern })
+    }
+    files.push(...matches)
+  }
+  return [...new Set(files)]
+}
+
+/**
+ * Whether a path segment contains glob characters
+ */
+const hasGlob = (segment: string): boolean => /[*?[{]/.test(segment)
+
+/**
+ * Expand a glob pattern supporting `*`, `?`, `[...]`, `{a,b}` and `**` (any number of directories)
+ *
+ * Patterns without glob characters are returned as is, so missing files are reported when they are processed.
+ * @param pattern File path or glob pattern
+ * @returns Matching files, sorted
+ */
+async function expandGlob(pattern: string): Promise<string[]> {
+  if (!hasGlob(pattern)) {
+    return [pattern]
+  }
+
+  const segments = pattern.split(/[\\/]+/)
+  const root = path.isAbsolute(pattern) ? path.parse(path.resolve(pattern)).root : '.'
+  if (path.isAbsolute(pattern)) {
+    segments.shift()
+  }
+
+  const matches: string[] = []
+
+  const walk = async (directory: string, index: number): Promise<void> => {
+    const segment = segments[index] as string
+    const last = index === segments.length - 1
+
+    if (segment === '**') {
+      // Zero directories, or one more level of directories
+      await walk(directory, index + 1)
+      for (const entry of await readDirectory(directory)) {
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+          await walk(path.join(directory, entry.name), index)
+        }
+      }
+      return
+    }
+
+    const matcher = hasGlob(segment) ? segmentRegExp(segment) : undefined
+    for (const entry of await readDirectory(directory)) {
+      const matchesSegment = matcher
+        ? matcher.test(entry.name) && (!entry.name.startsWith('.') || segment.startsWith('.'))
+        : entry.name === segment
+      if (!matchesSegment) {
+        continue
+      }
+
+      const entryPath = directory === '.' ? entry.name : path.join(directory, entry.name)
+      if (last) {
+        if (entry.isFile()) {
+          matches.push(entryPath)
+        }
+      } else if (entry.isDirectory()) {
+        await walk(entryPath, index + 1)
+      }
+    }
+  }
+
+  if (segments.length > 0) {
+    await walk(root, 0)
+  }
+  return [...new Set(matches)].sort()
+}
+
+/**
+ * Read the entries of a directory, treating missing or unreadable directories as empty
+ */
+async function readDirectory(directory: string) {
+  try {
+    return await fs.readdir(directory, { withFileTypes: true })
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Convert a glob path segment to a regular expression
+ */
+function segmentRegExp(segment: string): RegExp {
+  let source = ''
+  let braces = 0
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i] as string
+    if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[') {
+      const end = segment.indexOf(']', i + 1)
+      if (end === -1) {
+        source += '\\['
+      } else {
+        source +=
+          '[' +
+          segment
+            .slice(i + 1, end)
+            .replace(/^!/, '^')
+            .replace(/\\/g, '\\\\') +
+          ']'
+        i = end
+      }
+    } else if (char === '{') {
+      braces++
+      source += '(?:'
+    } else if (char === '}' && braces > 0) {
+      braces--
+      source += ')'
+    } else if (char === ',' && braces > 0) {
+      source += '|'
+    } else {
+      source += char.replace(/[.+^$()|\\{}]/g, '\\$&')
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Write output to a file, or to stdout when no path is given
+ */
+async function writeOutput(text: string, outputPath: string | undefined): Promise<void> {
+  if (!outputPath) {
+    process.stdout.write(text)
+    return
+  }
+
+  await fs.mkdir(path.dirname(outputPath), { recursive: true })
+  await fs.writeFile(outputPath, text)
+}
+
+/**
+ * Whether a path is an existing directory
+ */
+async function isDirectory(target: string): Promise<boolean> {
+  try {
+    return (await fs.stat(target)).isDirectory()
+  } catch {
+    return false
+  }
+}
+
+const round = (value: number): number => Math.round(value * 1000) / 1000
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error))
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code
+  },
+  (error) => {
+    process.stderr.write(`vad-node: ${errorMessage(error)}\n`)
+    process.exitCode = 1
+  },
+)
@@ -0,0 +1,331 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import type { SpeechSegment } from './vad'
+import { logger } from './logger'
+import { decodeAudioFile, type AudioDecoder } from './decoders'
+import { saveWAVFile, type WAVEncodeOptions } from './wav'
+import { saveMP3File, type MP3EncodeOptions } from './mp3'
+import { EncodeError, InvalidOptionsError, type OptionIssue } from './errors'
+
+/**
+ * Options for compacting audio down to its speech segments
+ */
+export interface CompactionOptions {
+  /** Silence between segments in milliseconds (defaults to 500) */
+  gapMs?: number
+  /** Silence before the first and after the last segment in milliseconds (defaults to `gapMs`) */
+  edgeMs?: number
+  /**
+   * Length of the fades at each splice in milliseconds (defaults to 0). Segments fade out into and in from the
+   * silence between them; with a `gapMs` of 0 they overlap and crossfade instead, shortening the output
+   */
+  crossfadeMs?: number
+}
+
+/**
+ * Piece of compacted audio and where it came from
+ *
+ * Times are in milliseconds. Both ranges have the same length, so a time inside the piece maps across by a constant
+ * offset. Where segments crossfade, the overlap is split halfway between the neighbouring pieces.
+ */
+export interface CompactionMapEntry {
+  /** Start of the piece in the original audio */
+  originalStart: number
+  /** End of the piece in the original audio */
+  originalEnd: number
+  /** Start of the piece in the compacted audio */
+  compactedStart: number
+  /** End of the piece in the compacted audio */
+  compactedEnd: number
+}
+
+/**
+ * Compacted audio with a map back to the original timeline
+ */
+export interface CompactionResult {
+  /** Compacted audio samples */
+  audio: Float32Array
+  /** Sample rate of the audio in Hz, the same as the original */
+  sampleRate: number
+  /** Duration of the compacted audio in milliseconds */
+  duration: number
+  /** Pieces of the compacted audio, sorted by time. Use `toOriginalTime` and `toCompactedTime` to convert times */
+  map: CompactionMapEntry[]
+}
+
+/**
+ * File formats compacted audio can be saved in: WAV, MP3 or raw 32-bit float little-endian samples
+ */
+export type CompactionFormat = 'wav' | 'mp3' | 'float32'
+
+/**
+ * Options for compacting an audio file and saving the result
+ */
+export interface CompactAudioFileOptions extends CompactionOptions {
+  /** Output format (defaults to 'mp3' for `.mp3` paths, 'float32' for `.f32` and `.raw`, and 'wav' otherwise) */
+  format?: CompactionFormat
+  /** Sample format of WAV output */
+  wav?: WAVEncodeOptions
+  /** Bitrate, quality and tags of MP3 output */
+  mp3?: MP3EncodeOptions
+  /** Decoder to use instead of picking one from the registry */
+  decoder?: AudioDecoder
+}
+
+/**
+ * Cut the silence out of audio, keeping only its speech segments, and map the result back to the original timeline
+ *
+ * Overlapping segments (e.g. from several channels) are merged first, so no audio is repeated.
+ * @param audioData Audio samples the segments refer to
+ * @param sampleRate Sample rate of the audio in Hz
+ * @param segments Segments with `start`/`end` in milliseconds. Exact `startSample`/`endSample` indices are used
+ *                 instead when the segments carry them
+ * @param options Gap, edge and crossfade lengths
+ * @returns Compacted audio and the map of its pieces
+ */
+export function compactAudio(
+  audioData: Float32Array,
+  sampleRate: number,
+  segments: SpeechSegment[],
+  options: CompactionOptions = {},
+): CompactionResult {
+  validateCompactionOptions(options)
+  const { gapMs = 500, edgeMs = gapMs, crossfadeMs = 0 } = options
+  const toSamples = (ms: number): number => Math.round((ms * sampleRate) / 1000)
+  const toMs = (samples: number): number => (samples / sampleRate) * 1000
+
+  const pieces = mergeRanges(segments, audioData.length, sampleRate)
+  const gap = toSamples(gapMs)
+  const edge = toSamples(edgeMs)
+
+  // Fades can take at most half of a piece; neighbours without a gap overlap by the shorter of their fades
+  const fades = pieces.map(({ from, to }) => Math.min(toSamples(crossfadeMs), Math.floor((to - from) / 2)))
+  const overlaps = pieces.map((_, index) =>
+    index > 0 && gap === 0 ? Math.min(fades[index - 1] as number, fades[index] as number) : 0,
+  )
+
+  const positions: number[] = []
+  let position = edge
+  pieces.forEach(({ from, to }, index) => {
+    position -= overlaps[index] as number
+    positions.push(position)
+    position += to - from + (index < pieces.length - 1 ? gap : 0)
+  })
+
+  const audio = new Float32Array(pieces.length > 0 ? position + edge : 2 * edge)
+  const map: CompactionMapEntry[] = []
+
+  pieces.forEach(({ from, to }, index) => {
+    const length = to - from
+    const start = positions[index] as number
+    const overlapBefore = overlaps[index] as number
+    const overlapAfter = overlaps[index + 1] ?? 0
+    const fadeIn = index > 0 && gap === 0 ? overlapBefore : (fades[index] as number)
+    const fadeOut = index < pieces.length - 1 && gap === 0 ? overlapAfter : (fades[index] as number)
+
+    for (let i = 0; i < length; i++) {
+      let gain = 1
+      if (i < fadeIn) {
+        gain = (i + 0.5) / fadeIn
+      } else if (i >= length - fadeOut) {
+        gain = (length - i - 0.5) / fadeOut
+      }
+      // Overlapping fades add up to the original level
+      audio[start + i] = (audio[start + i] as number) + (audioData[from + i] as number) * gain
+    }
+
+    map.push({
+      originalStart: toMs(from + overlapBefore / 2),
+      originalEnd: toMs(to - overlapAfter / 2),
+      compactedStart: toMs(start + overlapBefore / 2),
+      compactedEnd: toMs(start + length - overlapAfter / 2),
+    })
+  })
+
+  return { audio, sampleRate, duration: toMs(audio.length), map }
+}
+
+/**
+ * Convert a time in compacted audio to the original timeline, e.g. for word timestamps from ASR
+ *
+ * Times in the silence between pieces map to the nearest piece's edge, and times before the first or after the last
+ * piece to the start of the first or the end of the last.
+ * @param map Map of the compacted audio
+ * @param time Time in the compacted audio in milliseconds
+ * @returns Time in the original audio in milliseconds
+ */
+export function toOriginalTime(map: CompactionMapEntry[], time: number): number {
+  return mapTime(map, time, 'compacted', 'original')
+}
+
+/**
+ * Convert a time in the original audio to the compacted timeline
+ *
+ * Times in removed silence map to the nearest piece's edge, and times before the first or after the last piece to
+ * the start of the first or the end of the last.
+ * @param map Map of the compacted audio
+ * @param time Time in the original audio in milliseconds
+ * @returns Time in the compacted audio in milliseconds
+ */
+export function toCompactedTime(map: CompactionMapEntry[], time: number): number {
+  return mapTime(map, time, 'original', 'compacted')
+}
+
+/**
+ * Compact an audio file in any registered format down to its speech segments and save the result
+ *
+ * The output keeps the sample rate of the input, with multichannel audio averaged to mono.
+ * @param inputPath Path to the input audio file
+ * @param outputPath Path for the output file
+ * @param segments Segments with `start`/`end` in milliseconds, e.g. from `processAudioFile`
+ * @param options Gap, edge and crossfade lengths, output format and encoder options
+ * @returns Compacted audio and the map of its pieces
+ */
+export async function compactAudioFile(
+  inputPath: string,
+  outputPath: string,
+  segments: SpeechSegment[],
+  options: CompactAudioFileOptions = {},
+): Promise<CompactionResult> {
+  try {
+    const { audioData, sampleRate } = await decodeAudioFile(inputPath, options.decoder)
+    const result = compactAudio(audioData, sampleRate, segments, options)
+    logger.debug('Compacted audio created', { samples: result.audio.length, pieces: result.map.length })
+
+    const format = options.format ?? formatFromPath(outputPath)
+    if (format === 'mp3') {
+      await saveMP3File(result.audio, sampleRate, outputPath, options.mp3)
+    } else if (format === 'wav') {
+      await saveWAVFile(result.audio, sampleRate, outputPath, options.wav)
+    } else {
+      await saveFloat32File(result.audio, outputPath)
+    }
+
+    logger.info('Compacted audio saved', { path: outputPath, format })
+    return result
+  } catch (error) {
+    logger.error('Error compacting audio file', { path: inputPath, error })
+    throw error
+  }
+}
+
+/**
+ * Check the compaction options, throwing an `InvalidOptionsError` listing every problem
+ */
+const validateCompactionOptions = (options: CompactionOptions): void => {
+  const issues: OptionIssue[] = []
+  for (const field of ['gapMs', 'edgeMs', 'crossfadeMs'] as const) {
+    const value = options[field]
+    if (value !== undefined && !(typeof value === 'number' && value >= 0 && Number.isFinite(value))) {
+      issues.push({ field, message: `should be a non-negative number, got ${value}` })
+    }
+  }
+  if (issues.length > 0) {
+    throw new InvalidOptionsError(issues)
+  }
+}
+
+/**
+ * Convert segments to sample ranges within the audio, sorted and with overlapping ranges merged
+ */
+const mergeRanges = (segments: SpeechSegment[], length: number, sampleRate: number): { from: number; to: number }[] => {
+  const ranges = segments
+    .map((segment) => ({
+      // Use the exact sample indices from the VAD when available, otherwise calculate them from the timestamps
+      from: Math.max(0, segment.startSample ?? Math.floor((segment.start / 1000) * sampleRate)),
+      to: Math.min(length, segment.endSample ?? Math.floor((segment.end / 1000) * sampleRate)),
+    }))
+    .filter(({ from, to }, index) => {
+      if (from < to) {
+        return true
+      }
+      logger.warn('Skipping segment outside the audio', { start: segments[index]?.start, end: segments[index]?.end })
+      return false
+    })
+    .sort((a, b) => a.from - b.from)
+
+  const merged: { from: number; to: number }[] = []
+  for (const range of ranges) {
+    const previous = merged.at(-1)
+    if (previous && range.from <= previous.to) {
+      previous.to = Math.max(previous.to, range.to)
+    } else {
+      merged.push({ ...range })
+    }
+  }
+  return merged
+}
+
+/**
+ * Convert a time between the timelines of a compaction map
+ */
+const mapTime = (
+  map: CompactionMapEntry[],
+  time: number,
+  from: 'original' | 'compacted',
+  to: 'original' | 'compacted',
+): number => {
+  if (map.length === 0) {
+    return time
+  }
+
+  const startOf = (entry: CompactionMapEntry): number =>
+    from === 'original' ? entry.originalStart : entry.compactedStart
+  const endOf = (entry: CompactionMapEntry): number => (from === 'original' ? entry.originalEnd : entry.compactedEnd)
+
+  // Find the last piece starting at or before the time
+  let low = 0
+  let high = map.length - 1
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2)
+    if (startOf(map[middle] as CompactionMapEntry) <= time) {
+      low = middle
+    } else {
+      high = middle - 1
+    }
+  }
+
+  const entry = map[low] as CompactionMapEntry
+  const next = map[low + 1]
+  const targetStart = to === 'original' ? entry.originalStart : entry.compactedStart
+  const targetEnd = to === 'original' ? entry.originalEnd : entry.compactedEnd
+
+  if (time < startOf(entry)) {
+    return targetStart
+  }
+  if (time <= endOf(entry)) {
+    return targetStart + (time - startOf(entry))
+  }
+  // Between two pieces, snap to the nearer edge
+  if (next && time - endOf(entry) > startOf(next) - time) {
+    return to === 'original' ? next.originalStart : next.compactedStart
+  }
+  return targetEnd
+}
+
+/**
+ * Pick the output format from the file extension
+ */
+const formatFromPath = (outputPath: string): CompactionFormat => {
+  const extension = path.extname(outputPath).toLowerCase()
+  if (extension === '.mp3') {
+    return 'mp3'
+  }
+  return extension === '.f32' || extension === '.raw' ? 'float32' : 'wav'
+}
+
+/**
+ * Save samples as raw 32-bit float little-endian data
+ */
+const saveFloat32File = async (audio: Float32Array, outputPath: string): Promise<void> => {
+  const buffer = Buffer.alloc(audio.length * 4)
+  audio.forEach((sample, index) => buffer.writeFloatLE(sample, index * 4))
+
+  try {
+    // Ensure output directory exists
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+    await fs.writeFile(outputPath, buffer)
+  } catch (err) {
+    throw new EncodeError(`Failed to write ${outputPath}: ${(err as Error).message}`, { path: outputPath, cause: err })
+  }
+}
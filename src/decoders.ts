@@ -0,0 +1,377 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { Readable } from 'stream'
+import { getLogger, logger } from './logger'
+import { checkLameInstallation, decodeMP3Channels, decodeMP3Stream } from './mp3'
+import { readWAV, readWAVStream } from './wav'
+import { checkFFmpegInstallation, decodeFFmpegChannels, decodeFFmpegStream } from './ffmpeg'
+import {
+  downmix,
+  processAudioData,
+  type DownmixStrategy,
+  type ProcessAudioOptions,
+  type ProcessAudioResult,
+} from './audio'
+import { describeSource, type AudioSource, type DecodedAudioStream } from './audio-stream'
+import { VAD, type SpeechSegment } from './vad'
+import { DecodeError, DecoderNotFoundError, InvalidOptionsError } from './errors'
+
+/** Number of bytes read from the start of a file to detect its format */
+const HEADER_BYTES = 64
+
+/**
+ * Audio decoded from a file
+ */
+export interface DecodedAudio {
+  /** Mono audio samples normalized to [-1.0, 1.0] */
+  audioData: Float32Array
+  /** Samples of each channel, for decoders that keep the channels apart */
+  channelData?: Float32Array[]
+  /** Sample rate in Hz */
+  sampleRate: number
+}
+
+/**
+ * Decoder for one or more audio file formats
+ */
+export interface AudioDecoder {
+  /** Name of the decoder, used in logs and errors */
+  name: string
+  /** File extensions handled by the decoder, lowercase and without the dot (e.g. 'mp3') */
+  extensions: string[]
+  /**
+   * Check the first bytes of a file for the format's magic bytes. When omitted, files are matched by extension only
+   * @param header Up to the first 64 bytes of the file
+   */
+  matches?: (header: Buffer) => boolean
+  /**
+   * Check that external dependencies (e.g. a binary) are available, rejecting with a descriptive error otherwise
+   */
+  check?: () => Promise<void>
+  /**
+   * Decode a file to mono audio, optionally keeping the samples of each channel
+   * @param filePath Path to the audio file
+   */
+  decode: (filePath: string) => Promise<DecodedAudio>
+  /**
+   * Decode audio chunk by chunk, with memory use independent of its length. Decoders without it can only stream
+   * files, which are then decoded whole
+   * @param source Path to the audio file, its contents, or a stream of them
+   */
+  decodeStream?: (source: AudioSource) => Promise<DecodedAudioStream>
+}
+
+/**
+ * Options for VAD processing of audio files in any registered format (no file saving)
+ */
+export interface ProcessAudioFileOptions extends ProcessAudioOptions {
+  /** Decoder to use instead of picking one from the registry */
+  decoder?: AudioDecoder
+}
+
+/**
+ * Options for streaming VAD processing of audio in any registered format
+ */
+export interface StreamAudioOptions extends Omit<ProcessAudioFileOptions, 'channelMode'> {
+  /**
+   * How to combine multichannel audio into one channel (defaults to 'mean'). Channels can't be processed separately
+   * in one pass over the audio
+   */
+  channelMode?: DownmixStrategy
+}
+
+/**
+ * MP3 decoder using the `lame` binary
+ */
+export const mp3Decoder: AudioDecoder = {
+  name: 'lame',
+  extensions: ['mp3'],
+  // ID3 tag, or an MPEG audio frame sync with a non-zero layer (layer 0 is AAC ADTS)
+  matches: (header) =>
+    header.toString('latin1', 0, 3) === 'ID3' ||
+    (header[0] === 0xff && ((header[1] as number) & 0xe0) === 0xe0 && ((header[1] as number) & 0x06) !== 0),
+  check: checkLameInstallation,
+  decode: async (filePath) => {
+    const [channelData, sampleRate] = await decodeMP3Channels(filePath)
+    return { audioData: downmix(channelData, 'mean', sampleRate), channelData, sampleRate }
+  },
+  decodeStream: decodeMP3Stream,
+}
+
+/**
+ * Native WAV decoder
+ */
+export const wavDecoder: AudioDecoder = {
+  name: 'wav',
+  extensions: ['wav', 'wave'],
+  matches: (header) => header.toString('latin1', 0, 4) === 'RIFF' && header.toString('latin1', 8, 12) === 'WAVE',
+  decode: async (filePath) => {
+    const { format, channelData } = await readWAV(filePath)
+    return { audioData: downmix(channelData, 'mean', format.sampleRate), channelData, sampleRate: format.sampleRate }
+  },
+  decodeStream: async (source) => {
+    const { format, chunks } = await readWAVStream(source)
+    return { sampleRate: format.sampleRate, channels: format.channels, chunks }
+  },
+}
+
+/**
+ * Decoder for OGG/Opus, FLAC, M4A/AAC and WebM using the `ffmpeg` binary
+ */
+export const ffmpegDecoder: AudioDecoder = {
+  name: 'ffmpeg',
+  extensions: ['ogg', 'oga', 'opus', 'flac', 'm4a', 'mp4', 'aac', 'webm'],
+  matches: (header) => {
+    const magic = header.toString('latin1', 0, 4)
+    return magic === 'OggS' || magic === 'fLaC' || header.toString('latin1', 4, 8) === 'ftyp'
+  },
+  check: checkFFmpegInstallation,
+  decode: async (filePath) => {
+    const [channelData, sampleRate] = await decodeFFmpegChannels(filePath)
+    return { audioData: downmix(channelData, 'mean', sampleRate), channelData, sampleRate }
+  },
+  decodeStream: decodeFFmpegStream,
+}
+
+/** Registered decoders, in order of precedence */
+const decoders: AudioDecoder[] = [wavDecoder, mp3Decoder, ffmpegDecoder]
+
+/** Successful dependency checks, so each decoder's binary is only probed once */
+const availableDecoders = new WeakMap<AudioDecoder, Promise<void>>()
+
+/**
+ * Register a decoder. Decoders registered later take precedence over earlier ones and the built-in decoders
+ * @param decoder Decoder to register
+ */
+export function registerDecoder(decoder: AudioDecoder): void {
+  unregisterDecoder(decoder.name)
+  decoders.unshift(decoder)
+}
+
+/**
+ * Remove a decoder from the registry
+ * @param name Name of the decoder
+ * @returns Whether a decoder was removed
+ */
+export function unregisterDecoder(name: string): boolean {
+  const index = decoders.findIndex((decoder) => decoder.name === name)
+  if (index === -1) {
+    return false
+  }
+
+  decoders.splice(index, 1)
+  return true
+}
+
+/**
+ * Get the registered decoders, in order of precedence
+ */
+export function getDecoders(): AudioDecoder[] {
+  return [...decoders]
+}
+
+/**
+ * Find the decoder for a file from its magic bytes or its extension
+ * @param filePath Path to the audio file
+ * @returns Matching decoder
+ */
+export async function findDecoder(filePath: string): Promise<AudioDecoder> {
+  let header: Buffer
+  try {
+    const file = await fs.open(filePath, 'r')
+    try {
+      const { buffer, bytesRead } = await file.read(Buffer.alloc(HEADER_BYTES), 0, HEADER_BYTES, 0)
+      header = buffer.subarray(0, bytesRead)
+    } finally {
+      await file.close()
+    }
+  } catch (err) {
+    throw new DecodeError(`Audio file not found: ${filePath}`, { path: filePath, cause: err })
+  }
+
+  const decoder = matchDecoder(header, path.extname(filePath).slice(1).toLowerCase())
+  if (decoder) {
+    return decoder
+  }
+
+  throw new DecoderNotFoundError(`No audio decoder registered for ${filePath}`, { path: filePath })
+}
+
+/**
+ * Find the registered decoder for a file's first bytes and extension
+ */
+function matchDecoder(header: Buffer, extension?: string): AudioDecoder | undefined {
+  // Decoders are tried in order of precedence, by magic bytes when they can check them and by extension otherwise
+  return (
+    decoders.find((candidate) =>
+      candidate.matches
+        ? candidate.matches(header)
+        : extension !== undefined && candidate.extensions.includes(extension),
+    ) ?? decoders.find((candidate) => extension !== undefined && candidate.extensions.includes(extension))
+  )
+}
+
+/**
+ * Decode an audio file with the matching registered decoder
+ * @param filePath Path to the audio file
+ * @param decoder Decoder to use instead of picking one from the registry
+ * @returns Decoded audio and its sample rate
+ */
+export async function decodeAudioFile(filePath: string, decoder?: AudioDecoder): Promise<DecodedAudio> {
+  const selected = decoder ?? (await findDecoder(filePath))
+  logger.debug('Decoding audio file', { path: filePath, decoder: selected.name })
+
+  await ensureAvailable(selected)
+  return selected.decode(filePath)
+}
+
+/**
+ * Decode audio chunk by chunk with the matching registered decoder
+ *
+ * Buffers and streams are matched to a decoder by their magic bytes. Decoders without `decodeStream` can only decode
+ * files, which are then decoded whole.
+ * @param source Path to the audio file, its contents, or a stream of them
+ * @param decoder Decoder to use instead of picking one from the registry
+ * @returns Sample rate and channel count of the audio, and its decoded chunks
+ */
+export async function decodeAudioStream(source: AudioSource, decoder?: AudioDecoder): Promise<DecodedAudioStream> {
+  let input = source
+  let selected = decoder
+  if (!selected && typeof source === 'string') {
+    selected = await findDecoder(source)
+  } else if (!selected) {
+    const peeked = await peekHeader(source as Buffer | Readable)
+    input = peeked.source
+    selected = matchDecoder(peeked.header)
+    if (!selected) {
+      throw new DecoderNotFoundError(`No audio decoder registered for ${describeSource(source)}`)
+    }
+  }
+  logger.debug('Decoding audio stream', { path: describeSource(source), decoder: selected.name })
+
+  await ensureAvailable(selected)
+  if (selected.decodeStream) {
+    return selected.decodeStream(input)
+  }
+
+  if (typeof input !== 'string') {
+    throw new DecoderNotFoundError(`The ${selected.name} decoder can only decode files`, {
+      path: describeSource(source),
+    })
+  }
+  const { audioData, channelData, sampleRate } = await selected.decode(input)
+  const channels = channelData ?? [audioData]
+  return { sampleRate, channels: channels.length, chunks: [channels] }
+}
+
+/**
+ * Read the first bytes of a buffer or stream to detect its format, returning a stream that still starts with them
+ */
+async function peekHeader(source: Buffer | Readable): Promise<{ header: Buffer; source: Buffer | Readable }> {
+  if (Buffer.isBuffer(source)) {
+    return { header: source.subarray(0, HEADER_BYTES), source }
+  }
+
+  const iterator: AsyncIterator<Buffer> = source[Symbol.asyncIterator]()
+  const head: Buffer[] = []
+  let length = 0
+  while (length < HEADER_BYTES) {
+    const { value, done } = await iterator.next()
+    if (done) {
+      break
+    }
+    head.push(Buffer.from(value))
+    length += value.length
+  }
+
+  const rest = async function* (): AsyncGenerator<Buffer> {
+    yield* head
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      yield next.value
+    }
+  }
+
+  return { header: Buffer.concat(head).subarray(0, HEADER_BYTES), source: Readable.from(rest()) }
+}
+
+/**
+ * Run the decoder's dependency check once, reporting missing binaries before decoding starts
+ */
+async function ensureAvailable(decoder: AudioDecoder): Promise<void> {
+  if (!decoder.check) {
+    return
+  }
+
+  let check = availableDecoders.get(decoder)
+  if (!check) {
+    check = decoder.check()
+    availableDecoders.set(decoder, check)
+  }
+
+  try {
+    await check
+  } catch (error) {
+    // Check again next time, in case the binary gets installed
+    availableDecoders.delete(decoder)
+    throw error
+  }
+}
+
+/**
+ * Process an audio file in any registered format with the VAD (does not save files)
+ *
+ * @param filePath Path to the audio file
+ * @param options Processing options
+ * @returns Promise with processing results (segments, times, audio data, sample rate)
+ */
+export async function processAudioFile(
+  filePath: string,
+  options: ProcessAudioFileOptions = {},
+): Promise<ProcessAudioResult> {
+  try {
+    const { audioData, channelData, sampleRate } = await decodeAudioFile(filePath, options.decoder)
+    return await processAudioData(channelData ?? audioData, sampleRate, options)
+  } catch (error) {
+    getLogger(options.logger).error('Error processing audio file for VAD', { path: filePath, error })
+    throw error
+  }
+}
+
+/**
+ * Run audio in any registered format through the VAD chunk by chunk, yielding speech segments as they are detected
+ *
+ * Decoding is paced by the VAD, so memory use doesn't depend on the length of the audio. Multichannel audio is
+ * combined according to `options.channelMode`, and post-processing options apply as in `VAD.runStream`.
+ * @param source Path to the audio file, its contents, or a stream of them
+ * @param options Processing options
+ * @returns AsyncGenerator yielding speech segments
+ */
+export async function* streamAudioSegments(
+  source: AudioSource,
+  options: StreamAudioOptions = {},
+): AsyncGenerator<SpeechSegment> {
+  const channelMode = options.channelMode ?? 'mean'
+  if ((channelMode as string) === 'separate') {
+    throw new InvalidOptionsError([
+      { field: 'channelMode', message: 'separate is not supported when streaming; use a downmix strategy' },
+    ])
+  }
+
+  try {
+    // Use provided VAD instance or create a new one, before the decoder starts so a failure can't leave it running
+    const vad = options.vadInstance || (await VAD.create(options))
+
+    const { sampleRate, chunks } = await decodeAudioStream(source, options.decoder)
+
+    const mono = async function* (): AsyncGenerator<Float32Array> {
+      for await (const channelData of chunks) {
+        yield downmix(channelData, channelMode, sampleRate)
+      }
+    }
+
+    yield* vad.runStream(mono(), sampleRate)
+  } catch (error) {
+    getLogger(options.logger).error('Error streaming audio for VAD', { path: describeSource(source), error })
+    throw error
+  }
+}
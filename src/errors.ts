@@ -0,0 +1,205 @@
+/**
+ * Details carried by errors from model loading, decoding and encoding
+ */
+export interface ErrorDetails {
+  /** File the operation was working on */
+  path?: string
+  /** Exit code of the external program (lame, ffmpeg), if it ran */
+  exitCode?: number | null
+  /** Error output of the external program, if it ran */
+  stderr?: string
+  /** Underlying error */
+  cause?: unknown
+}
+
+/**
+ * Base class of the errors thrown by this package
+ */
+export class VADError extends Error {
+  /**
+   * Creates a new error
+   * @param message Error message
+   * @param cause Underlying error
+   */
+  constructor(message: string, cause?: unknown) {
+    super(message, cause !== undefined ? { cause } : undefined)
+    this.name = 'VADError'
+  }
+}
+
+/**
+ * Thrown when the ONNX model can't be read, fetched or loaded into ONNX Runtime
+ */
+export class ModelLoadError extends VADError {
+  /** Model file, when loading from a path */
+  path?: string
+
+  /**
+   * Creates a new model load error
+   * @param message Error message
+   * @param details Model file and underlying error
+   */
+  constructor(message: string, { path, cause }: Pick<ErrorDetails, 'path' | 'cause'> = {}) {
+    super(message, cause)
+    this.name = 'ModelLoadError'
+    this.path = path
+  }
+}
+
+/**
+ * Thrown when running frames through the model fails
+ */
+export class InferenceError extends VADError {
+  /**
+   * Creates a new inference error
+   * @param message Error message
+   * @param cause Underlying ONNX Runtime error
+   */
+  constructor(message: string, cause?: unknown) {
+    super(message, cause)
+    this.name = 'InferenceError'
+  }
+}
+
+/**
+ * Thrown when the program needed to decode or encode audio (lame, ffmpeg) isn't installed, or when no decoder is
+ * registered for a file
+ */
+export class DecoderNotFoundError extends VADError {
+  /** Name of the missing program, if the decoder needs one */
+  binary?: string
+  /** File that couldn't be decoded or encoded */
+  path?: string
+
+  /**
+   * Creates a new decoder not found error
+   * @param message Error message
+   * @param details Missing program, file and underlying error
+   */
+  constructor(message: string, { binary, path, cause }: { binary?: string; path?: string; cause?: unknown } = {}) {
+    super(message, cause)
+    this.name = 'DecoderNotFoundError'
+    this.binary = binary
+    this.path = path
+  }
+}
+
+/**
+ * Thrown when an audio file is missing, corrupt or in an unsupported format, or its decoder fails. Also thrown for
+ * malformed media stream messages
+ */
+export class DecodeError extends VADError {
+  /** File that couldn't be decoded */
+  path?: string
+  /** Exit code of the decoder program, if it ran */
+  exitCode?: number | null
+  /** Error output of the decoder program, if it ran */
+  stderr?: string
+
+  /**
+   * Creates a new decode error
+   * @param message Error message
+   * @param details File, decoder exit code and output, and underlying error
+   */
+  constructor(message: string, { path, exitCode, stderr, cause }: ErrorDetails = {}) {
+    super(message, cause)
+    this.name = 'DecodeError'
+    this.path = path
+    this.exitCode = exitCode
+    this.stderr = stderr
+  }
+}
+
+/**
+ * Thrown when audio can't be encoded or written
+ */
+export class EncodeError extends VADError {
+  /** File that couldn't be written */
+  path?: string
+  /** Exit code of the encoder program, if it ran */
+  exitCode?: number | null
+  /** Error output of the encoder program, if it ran */
+  stderr?: string
+
+  /**
+   * Creates a new encode error
+   * @param message Error message
+   * @param details Output file, encoder exit code and output, and underlying error
+   */
+  constructor(message: string, { path, exitCode, stderr, cause }: ErrorDetails = {}) {
+    super(message, cause)
+    this.name = 'EncodeError'
+    this.path = path
+    this.exitCode = exitCode
+    this.stderr = stderr
+  }
+}
+
+/**
+ * Thrown when speech segments can't be read from an annotation file
+ */
+export class SegmentParseError extends VADError {
+  /** Format the text was read as */
+  format: string
+  /** 1-based line of the text with the problem, when known */
+  line?: number
+
+  /**
+   * Creates a new segment parse error
+   * @param message Error message
+   * @param details Format, line and underlying error
+   */
+  constructor(message: string, { format, line, cause }: { format: string; line?: number; cause?: unknown }) {
+    super(message, cause)
+    this.name = 'SegmentParseError'
+    this.format = format
+    this.line = line
+  }
+}
+
+/**
+ * Problem found with one configuration option
+ */
+export interface OptionIssue {
+  /** Name of the invalid option */
+  field: string
+  /** What is wrong with its value */
+  message: string
+}
+
+/**
+ * Thrown when configuration options are invalid. Lists every invalid option, not just the first one found
+ */
+export class InvalidOptionsError extends VADError {
+  /**
+   * Creates a new invalid options error
+   * @param issues Every problem found with the options
+   */
+  constructor(public readonly issues: OptionIssue[]) {
+    super(`Invalid options:\n${issues.map(({ field, message }) => `  - ${field}: ${message}`).join('\n')}`)
+    this.name = 'InvalidOptionsError'
+  }
+}
+
+/**
+ * Thrown when a VAD or session is used in a state that doesn't allow it: before `VAD.create` completes, or while a
+ * session is already processing audio
+ */
+export class VADStateError extends VADError {
+  /**
+   * Creates a new state error
+   * @param message Error message
+   */
+  constructor(message: string) {
+    super(message)
+    this.name = 'VADStateError'
+  }
+}
+
+/**
+ * Check whether an error from spawning a program means the program isn't installed
+ * @param error Error emitted by the child process
+ */
+export function isMissingBinary(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
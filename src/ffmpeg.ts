@@ -0,0 +1,173 @@
+import * as fs from 'fs/promises'
+import { spawn } from 'child_process'
+import { logger } from './logger'
+import { downmix } from './audio'
+import { parseWAV } from './wav'
+import { DecodeError, DecoderNotFoundError, isMissingBinary } from './errors'
+import { decodeWithProcess, describeSource, type AudioSource, type DecodedAudioStream } from './audio-stream'
+
+/** Message of the error thrown when ffmpeg isn't installed */
+const FFMPEG_MISSING =
+  'Error: ffmpeg is not installed or not in PATH. Please install ffmpeg to decode OGG, Opus, FLAC or M4A files (e.g., brew install ffmpeg on macOS)'
+
+/**
+ * Decode any audio file ffmpeg understands (OGG, Opus, FLAC, M4A, ...) to mono PCM audio
+ *
+ * The audio keeps its original sample rate; channels are averaged to mono.
+ * @param filePath Path to the audio file
+ * @returns Promise containing [audioData, sampleRate]
+ */
+export async function decodeFFmpeg(filePath: string): Promise<[Float32Array, number]> {
+  const [channelData, sampleRate] = await decodeFFmpegChannels(filePath)
+  return [downmix(channelData, 'mean', sampleRate), sampleRate]
+}
+
+/**
+ * Decode any audio file ffmpeg understands to PCM audio, keeping each channel
+ *
+ * ffmpeg writes the first audio stream as a 32-bit float WAV to stdout, so the channel count and sample rate come
+ * from the WAV header rather than from its log output.
+ * @param filePath Path to the audio file
+ * @returns Promise containing [channelData, sampleRate]
+ */
+export async function decodeFFmpegChannels(filePath: string): Promise<[Float32Array[], number]> {
+  logger.debug('Decoding audio file with ffmpeg', { path: filePath })
+
+  // First check if the file exists
+  try {
+    await fs.access(filePath)
+  } catch (err) {
+    throw new DecodeError(`Audio file not found: ${filePath}`, { path: filePath, cause: err })
+  }
+
+  return new Promise((resolve, reject) => {
+    // Use ffmpeg to decode the first audio stream to a 32-bit float WAV
+    const ffmpeg = spawn('ffmpeg', [
+      '-hide_banner', // Don't output the build details
+      '-nostats', // Don't output progress
+      '-i',
+      filePath, // Input file
+      '-map',
+      '0:a:0', // First audio stream
+      '-c:a',
+      'pcm_f32le', // 32-bit float PCM
+      '-f',
+      'wav', // WAV container, carrying the channel count and sample rate
+      '-', // Output to stdout
+    ])
+
+    const chunks: Buffer[] = []
+    let stderrOutput = ''
+
+    ffmpeg.stdout.on('data', (chunk) => {
+      chunks.push(Buffer.from(chunk))
+    })
+
+    ffmpeg.stderr.on('data', (data) => {
+      stderrOutput += data.toString()
+    })
+
+    ffmpeg.on('close', (code) => {
+      if (code !== 0) {
+        return reject(
+          new DecodeError(`ffmpeg exited with code ${code}. stderr: ${stderrOutput}`, {
+            path: filePath,
+            exitCode: code,
+            stderr: stderrOutput,
+          }),
+        )
+      }
+
+      // Check if we have any data
+      if (chunks.length === 0) {
+        return reject(
+          new DecodeError('No audio data received from ffmpeg', {
+            path: filePath,
+            exitCode: code,
+            stderr: stderrOutput,
+          }),
+        )
+      }
+
+      try {
+        // The RIFF and data sizes are unknown when writing to a pipe; parseWAV clamps them to the buffer
+        const { format, channelData } = parseWAV(Buffer.concat(chunks))
+        logger.debug('Decoded audio file', {
+          path: filePath,
+          samples: channelData[0]?.length ?? 0,
+          channels: format.channels,
+          sampleRate: format.sampleRate,
+        })
+        resolve([channelData, format.sampleRate])
+      } catch (error) {
+        reject(
+          new DecodeError(`Invalid audio received from ffmpeg: ${(error as Error).message}`, {
+            path: filePath,
+            stderr: stderrOutput,
+            cause: error,
+          }),
+        )
+      }
+    })
+
+    ffmpeg.on('error', (err) => {
+      reject(
+        isMissingBinary(err)
+          ? new DecoderNotFoundError(FFMPEG_MISSING, { binary: 'ffmpeg', path: filePath, cause: err })
+          : new DecodeError(`Failed to spawn ffmpeg: ${err.message}`, { path: filePath, cause: err }),
+      )
+    })
+  })
+}
+
+/**
+ * Decode audio with ffmpeg chunk by chunk, keeping each channel
+ *
+ * Memory use doesn't depend on the length of the audio. Buffers and streams are piped to ffmpeg's stdin, which works
+ * for every format except MP4/M4A files with their index (`moov` atom) at the end.
+ * @param source Path to the audio file, its contents, or a stream of them
+ * @returns Sample rate and channel count of the audio, and its decoded chunks
+ */
+export async function decodeFFmpegStream(source: AudioSource): Promise<DecodedAudioStream> {
+  logger.debug('Decoding audio stream with ffmpeg', { path: describeSource(source) })
+
+  return decodeWithProcess(source, {
+    binary: 'ffmpeg',
+    args: (input) => [
+      '-hide_banner', // Don't output the build details
+      '-nostats', // Don't output progress
+      '-i',
+      input ?? 'pipe:0', // Input file, or stdin
+      '-map',
+      '0:a:0', // First audio stream
+      '-c:a',
+      'pcm_f32le', // 32-bit float PCM
+      '-f',
+      'wav', // WAV container, carrying the channel count and sample rate
+      '-', // Output to stdout
+    ],
+    missingMessage: FFMPEG_MISSING,
+  })
+}
+
+/**
+ * Checks if ffmpeg is installed and available
+ * @returns Promise that resolves if ffmpeg is available, rejects otherwise
+ */
+export function checkFFmpegInstallation(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const process = spawn('ffmpeg', ['-version'])
+
+    process.on('error', (err) => {
+      reject(new DecoderNotFoundError(FFMPEG_MISSING, { binary: 'ffmpeg', cause: err }))
+    })
+
+    process.on('close', (code) => {
+      if (code === 0) {
+        resolve()
+      } else {
+        reject(new DecoderNotFoundError(`ffmpeg command exited with code ${code}`, { binary: 'ffmpeg' }))
+      }
+    })
+  })
+}
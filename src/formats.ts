@@ -0,0 +1,679 @@
+import type { SpeechSegment } from './vad'
+import { InvalidOptionsError, SegmentParseError } from './errors'
+
+/**
+ * Text formats speech segments can be written in
+ *
+ * - `json`: the segments as a JSON array
+ * - `csv`: one row per segment with start, end and duration in seconds
+ * - `srt`: SubRip subtitles with one cue per segment
+ * - `vtt`: WebVTT subtitles with one cue per segment
+ * - `rttm`: NIST Rich Transcription Time Marked `SPEAKER` lines, as used by diarization tools
+ * - `audacity`: Audacity label track (tab-separated start, end and label in seconds)
+ * - `textgrid`: Praat TextGrid with one interval tier per channel
+ */
+export type SegmentFormat = 'json' | 'csv' | 'srt' | 'vtt' | 'rttm' | 'audacity' | 'textgrid'
+
+/** Supported segment formats */
+export const SEGMENT_FORMATS: SegmentFormat[] = ['json', 'csv', 'srt', 'vtt', 'rttm', 'audacity', 'textgrid']
+
+/** Usual file extension of each segment format */
+export const SEGMENT_FORMAT_EXTENSIONS: Record<SegmentFormat, string> = {
+  json: '.json',
+  csv: '.csv',
+  srt: '.srt',
+  vtt: '.vtt',
+  rttm: '.rttm',
+  audacity: '.txt',
+  textgrid: '.TextGrid',
+}
+
+/**
+ * Options for writing segments as text
+ */
+export interface FormatSegmentsOptions {
+  /**
+   * Identifier of the audio file or recording: the RTTM file-id field, the first CSV column and the WebVTT header
+   * text. Defaults to 'audio' for RTTM and is left out of the other formats
+   */
+  fileId?: string
+  /** Text of each cue or label, the RTTM speaker name and the TextGrid tier name (defaults to 'speech') */
+  label?: string
+  /** Channel of the segments that don't carry their own `channel` (0-based). Left out of the output when unset */
+  channel?: number
+  /** Whether to start CSV output with a header row (defaults to true) */
+  header?: boolean
+  /** Duration of the audio in milliseconds, used as the end of TextGrid tiers (defaults to the last segment end) */
+  duration?: number
+}
+
+/**
+ * Segment read from an annotation file
+ */
+export interface ParsedSegment extends SpeechSegment {
+  /** Cue text, label or speaker name of the segment */
+  label?: string
+  /** Identifier of the audio file or recording the segment belongs to, for formats that carry one */
+  fileId?: string
+}
+
+/**
+ * Write speech segments in a text format
+ * @param segments Segments with `start`/`end` in milliseconds
+ * @param format Output format
+ * @param options Recording ID, channel and format options
+ * @returns Formatted segments
+ */
+export function formatSegments(
+  segments: SpeechSegment[],
+  format: SegmentFormat,
+  options: FormatSegmentsOptions = {},
+): string {
+  switch (format) {
+    case 'json':
+      return (
+        JSON.stringify(
+          segments.map(({ audio, ...segment }) => segment),
+          null,
+          2,
+        ) + '\n'
+      )
+    case 'csv':
+      return toCSV(segments, options)
+    case 'srt':
+      return toSRT(segments, options)
+    case 'vtt':
+      return toWebVTT(segments, options)
+    case 'rttm':
+      return toRTTM(segments, options)
+    case 'audacity':
+      return toAudacityLabels(segments, options)
+    case 'textgrid':
+      return toTextGrid(segments, options)
+    default:
+      throw unsupportedFormat(format)
+  }
+}
+
+/**
+ * Read speech segments from a text format
+ * @param text Contents of the annotation file
+ * @param format Format of the text
+ * @returns Segments with `start`/`end` in milliseconds
+ */
+export function parseSegments(text: string, format: SegmentFormat): ParsedSegment[] {
+  switch (format) {
+    case 'json':
+      return parseJSON(text)
+    case 'csv':
+      return parseCSV(text)
+    case 'srt':
+      return parseSRT(text)
+    case 'vtt':
+      return parseWebVTT(text)
+    case 'rttm':
+      return parseRTTM(text)
+    case 'audacity':
+      return parseAudacityLabels(text)
+    case 'textgrid':
+      return parseTextGrid(text)
+    default:
+      throw unsupportedFormat(format)
+  }
+}
+
+/**
+ * Write segments as CSV with `start`, `end` and `duration` in seconds and the segment's `channel` (if any)
+ * @param segments Segments with `start`/`end` in milliseconds
+ * @param options Format options; `fileId` adds a leading `file` column
+ */
+export function toCSV(segments: SpeechSegment[], options: FormatSegmentsOptions = {}): string {
+  const { fileId, header = true } = options
+  const rows: string[] = []
+
+  if (header) {
+    rows.push([...(fileId !== undefined ? ['file'] : []), 'start', 'end', 'duration', 'channel'].join(','))
+  }
+
+  for (const segment of segments) {
+    const columns = [seconds(segment.start), seconds(segment.end), seconds(segment.end - segment.start)]
+    const channel = channelOf(segment, options) ?? ''
+    rows.push([...(fileId !== undefined ? [csvField(fileId)] : []), ...columns, channel].join(','))
+  }
+
+  return rows.map((row) => row + '\n').join('')
+}
+
+/**
+ * Read segments from CSV with a header row containing `start` and `end` columns in seconds
+ *
+ * Optional `file`, `channel` and `label` columns are read too; other columns (such as `duration`) are ignored.
+ * @param text CSV contents
+ */
+export function parseCSV(text: string): ParsedSegment[] {
+  // Keep the line number of each row for errors
+  const [header, ...rows] = text
+    .split(/\r?\n/)
+    .map((content, index) => ({ content, line: index + 1 }))
+    .filter(({ content }) => content.trim() !== '')
+  if (!header) {
+    return []
+  }
+
+  const columns = splitCSVLine(header.content).map((column) => column.trim().toLowerCase())
+  const column = (name: string) => columns.indexOf(name)
+  const [startColumn, endColumn] = [column('start'), column('end')]
+  if (startColumn === -1 || endColumn === -1) {
+    throw parseError('csv', 'needs a header row with start and end columns', header.line)
+  }
+
+  return rows.map(({ content, line }) => {
+    const fields = splitCSVLine(content)
+    const field = (position: number) => (position === -1 ? '' : (fields[position] ?? '').trim())
+
+    const segment: ParsedSegment = {
+      start: parseSeconds(field(startColumn), 'csv', line),
+      end: parseSeconds(field(endColumn), 'csv', line),
+    }
+    if (field(column('channel')) !== '') segment.channel = parseChannel(field(column('channel')), 'csv', line)
+    if (field(column('file')) !== '') segment.fileId = field(column('file'))
+    if (field(column('label')) !== '') segment.label = field(column('label'))
+    return segment
+  })
+}
+
+/**
+ * Write segments as SubRip (SRT) subtitles
+ * @param segments Segments with `start`/`end` in milliseconds
+ * @param options Format options; `label` sets the text of each cue
+ */
+export function toSRT(segments: SpeechSegment[], options: FormatSegmentsOptions = {}): string {
+  return segments
+    .map(
+      (segment, index) =>
+        `${index + 1}\n${timestamp(segment.start, ',')} --> ${timestamp(segment.end, ',')}\n${cueText(segment, options)}\n`,
+    )
+    .join('\n')
+}
+
+/**
+ * Read segments from SubRip (SRT) subtitles
+ * @param text SRT contents
+ */
+export function parseSRT(text: string): ParsedSegment[] {
+  return parseCues(text)
+}
+
+/**
+ * Write segments as WebVTT subtitles
+ * @param segments Segments with `start`/`end` in milliseconds
+ * @param options Format options; `label` sets the text of each cue and `fileId` the header text
+ */
+export function toWebVTT(segments: SpeechSegment[], options: FormatSegmentsOptions = {}): string {
+  const header = options.fileId !== undefined ? `WEBVTT - ${options.fileId}\n` : 'WEBVTT\n'
+  const cues = segments.map(
+    (segment) => `${timestamp(segment.start, '.')} --> ${timestamp(segment.end, '.')}\n${cueText(segment, options)}\n`,
+  )
+  return [header, ...cues].join('\n')
+}
+
+/**
+ * Read segments from WebVTT subtitles. Cue settings, `NOTE`, `STYLE` and `REGION` blocks are ignored
+ * @param text WebVTT contents
+ */
+export function parseWebVTT(text: string): ParsedSegment[] {
+  const [header] = text.split(/\r?\n/, 1)
+  if (!header?.replace(/^﻿/, '').startsWith('WEBVTT')) {
+    throw parseError('vtt', 'should start with WEBVTT', 1)
+  }
+
+  const fileId = header.match(/^﻿?WEBVTT[ \t]+(?:-[ \t]+)?(.+)$/)?.[1]?.trim()
+  return parseCues(text).map((segment) => (fileId ? { ...segment, fileId } : segment))
+}
+
+/**
+ * Write segments as RTTM `SPEAKER` lines
+ * @param segments Segments with `start`/`end` in milliseconds
+ * @param options Format options; `fileId` sets the file-id field and `label` the speaker name
+ */
+export function toRTTM(segments: SpeechSegment[], options: FormatSegmentsOptions = {}): string {
+  const { fileId = 'audio', label = 'speech' } = options
+  return segments
+    .map((segment) => {
+      // RTTM channels are 1-based
+      const channel = (channelOf(segment, options) ?? 0) + 1
+      const fields = [fileId, channel, seconds(segment.start), seconds(segment.end - segment.start)]
+      return `SPEAKER ${fields.join(' ')} <NA> <NA> ${label} <NA> <NA>\n`
+    })
+    .join('')
+}
+
+/**
+ * Read segments from the `SPEAKER` lines of an RTTM file
+ *
+ * The speaker name becomes the segment's `label`, and the 1-based RTTM channel its 0-based `channel`.
+ * @param text RTTM contents
+ */
+export function parseRTTM(text: string): ParsedSegment[] {
+  const segments: ParsedSegment[] = []
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const fields = line.trim().split(/\s+/)
+    if (fields[0] !== 'SPEAKER') {
+      return
+    }
+    if (fields.length < 8) {
+      throw parseError('rttm', `has ${fields.length} fields, expected 10`, index + 1)
+    }
+
+    const [, fileId, channel, onset, duration, , , speaker] = fields as string[]
+    const start = parseSeconds(onset as string, 'rttm', index + 1)
+    segments.push({
+      start,
+      end: start + parseSeconds(duration as string, 'rttm', index + 1),
+      channel: channel === '<NA>' ? undefined : parseChannel(channel as string, 'rttm', index + 1, 1),
+      label: speaker,
+      fileId,
+    })
+  })
+
+  return segments
+}
+
+/**
+ * Write segments as an Audacity label track (File > Import > Labels)
+ * @param segments Segments with `start`/`end` in milliseconds
+ * @param options Format options; `label` sets the text of each label
+ */
+export function toAudacityLabels(segments: SpeechSegment[], options: FormatSegmentsOptions = {}): string {
+  return segments
+    .map((segment) => {
+      const start = (segment.start / 1000).toFixed(6)
+      const end = (segment.end / 1000).toFixed(6)
+      return `${start}\t${end}\t${cueText(segment, options)}\n`
+    })
+    .join('')
+}
+
+/**
+ * Read segments from an Audacity label track. Spectral selection lines (starting with `\`) are ignored
+ * @param text Label track contents
+ */
+export function parseAudacityLabels(text: string): ParsedSegment[] {
+  const segments: ParsedSegment[] = []
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '' || line.startsWith('\\')) {
+      return
+    }
+
+    const [start, end, ...label] = line.split('\t')
+    segments.push({
+      start: parseSeconds(start ?? '', 'audacity', index + 1),
+      end: parseSeconds(end ?? start ?? '', 'audacity', index + 1),
+      ...parseCueText(label.join('\t')),
+    })
+  })
+
+  return segments
+}
+
+/**
+ * Write segments as a Praat TextGrid (long text format)
+ *
+ * Each channel gets an interval tier covering the whole recording, with the segments labelled and the gaps between
+ * them empty.
+ * @param segments Segments with `start`/`end` in milliseconds
+ * @param options Format options; `label` sets the interval text and tier name, `duration` the end of the tiers
+ */
+export function toTextGrid(segments: SpeechSegment[], options: FormatSegmentsOptions = {}): string {
+  const { label = 'speech' } = options
+  const xmax = Math.max(options.duration ?? 0, ...segments.map((segment) => segment.end)) / 1000
+
+  // Group the segments by channel, one tier each
+  const channels = new Map<number | undefined, SpeechSegment[]>()
+  for (const segment of [...segments].sort((a, b) => a.start - b.start)) {
+    const channel = channelOf(segment, options)
+    channels.set(channel, [...(channels.get(channel) ?? []), segment])
+  }
+  if (channels.size === 0) {
+    channels.set(options.channel, [])
+  }
+
+  const tiers = [...channels.entries()]
+    .sort(([a], [b]) => (a ?? 0) - (b ?? 0))
+    .map(([channel, tierSegments], index) => {
+      // Alternate empty gaps and labelled segments so the intervals cover [0, xmax]
+      const intervals: { xmin: number; xmax: number; text: string }[] = []
+      let time = 0
+      for (const segment of tierSegments) {
+        const start = Math.max(segment.start / 1000, time)
+        const end = segment.end / 1000
+        if (end <= start) {
+          continue
+        }
+        if (start > time) {
+          intervals.push({ xmin: time, xmax: start, text: '' })
+        }
+        intervals.push({ xmin: start, xmax: end, text: label })
+        time = end
+      }
+      if (time < xmax || intervals.length === 0) {
+        intervals.push({ xmin: time, xmax, text: '' })
+      }
+
+      const name = channel === undefined ? label : `${label} (channel ${channel})`
+      return [
+        `    item [${index + 1}]:`,
+        '        class = "IntervalTier"',
+        `        name = ${praatString(name)}`,
+        '        xmin = 0',
+        `        xmax = ${xmax}`,
+        `        intervals: size = ${intervals.length}`,
+        ...intervals.flatMap((interval, intervalIndex) => [
+          `        intervals [${intervalIndex + 1}]:`,
+          `            xmin = ${interval.xmin}`,
+          `            xmax = ${interval.xmax}`,
+          `            text = ${praatString(interval.text)}`,
+        ]),
+      ].join('\n')
+    })
+
+  return [
+    'File type = "ooTextFile"',
+    'Object class = "TextGrid"',
+    '',
+    'xmin = 0',
+    `xmax = ${xmax}`,
+    'tiers? <exists>',
+    `size = ${tiers.length}`,
+    'item []:',
+    ...tiers,
+    '',
+  ].join('\n')
+}
+
+/**
+ * Read segments from the interval tiers of a Praat TextGrid (long text format)
+ *
+ * Intervals with non-empty text become segments labelled with the text. When the file has several interval tiers,
+ * each segment's `channel` is the index of its tier (or the channel in the tier name, as written by `toTextGrid`).
+ * @param text TextGrid contents
+ */
+export function parseTextGrid(text: string): ParsedSegment[] {
+  if (!/Object class = "TextGrid"/.test(text)) {
+    throw parseError('textgrid', 'not a TextGrid file')
+  }
+
+  // Each tier runs from the end of its `item [n]:` line to the next one, with its offset kept for line numbers
+  const headers = [...text.matchAll(/^\s*item \[\d+\]:\s*$/gm)]
+  const tiers = headers.map((header, index) => {
+    const offset = (header.index as number) + header[0].length
+    return { offset, content: text.slice(offset, headers[index + 1]?.index) }
+  })
+  const intervalTiers = tiers.filter(({ content }) => /class = "IntervalTier"/.test(content))
+  const segments: ParsedSegment[] = []
+
+  intervalTiers.forEach(({ offset, content: tier }, tierIndex) => {
+    const name = parsePraatString(tier.match(/name = ("(?:[^"]|"")*")/)?.[1] ?? '""')
+    const namedChannel = name.match(/\(channel (\d+)\)$/)?.[1]
+    const channel = namedChannel !== undefined ? Number(namedChannel) : intervalTiers.length > 1 ? tierIndex : undefined
+
+    const intervals = tier.matchAll(
+      /intervals \[\d+\]:\s*xmin = ([\d.eE+-]+)\s*xmax = ([\d.eE+-]+)\s*text = ("(?:[^"]|"")*")/g,
+    )
+    for (const interval of intervals) {
+      const [, xmin, xmax, quoted] = interval
+      const label = parsePraatString(quoted as string)
+      if (label.trim() === '') {
+        continue
+      }
+
+      const line = lineAt(text, offset + (interval.index as number))
+      const segment: ParsedSegment = {
+        start: parseSeconds(xmin as string, 'textgrid', line),
+        end: parseSeconds(xmax as string, 'textgrid', line),
+        label,
+      }
+      if (channel !== undefined) {
+        segment.channel = channel
+      }
+      segments.push(segment)
+    }
+  })
+
+  return segments.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Error for a format that isn't one of `SEGMENT_FORMATS`
+ */
+const unsupportedFormat = (format: string): InvalidOptionsError =>
+  new InvalidOptionsError([
+    { field: 'format', message: `should be one of ${SEGMENT_FORMATS.join(', ')}, got ${format}` },
+  ])
+
+/** Name of each format in error messages */
+const FORMAT_NAMES: Record<SegmentFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  srt: 'SRT',
+  vtt: 'WebVTT',
+  rttm: 'RTTM',
+  audacity: 'Audacity labels',
+  textgrid: 'TextGrid',
+}
+
+/**
+ * Error for malformed text, with the format and line (when known) leading the message
+ */
+const parseError = (format: SegmentFormat, message: string, line?: number): SegmentParseError =>
+  new SegmentParseError(`${FORMAT_NAMES[format]}${line !== undefined ? ` line ${line}` : ''}: ${message}`, {
+    format,
+    line,
+  })
+
+/**
+ * 1-based line number of an offset in text
+ */
+const lineAt = (text: string, offset: number): number => text.slice(0, offset).split('\n').length
+
+/**
+ * Read segments from a JSON array of segments, as written by `formatSegments`, or of `{ file, segments }` entries, as
+ * written by the `detect` command (the file becomes each segment's `fileId`)
+ */
+const parseJSON = (text: string): ParsedSegment[] => {
+  let entries: unknown
+  try {
+    entries = JSON.parse(text)
+  } catch (error) {
+    throw new SegmentParseError(`JSON: ${error instanceof Error ? error.message : String(error)}`, {
+      format: 'json',
+      cause: error,
+    })
+  }
+  if (!Array.isArray(entries)) {
+    throw parseError('json', 'segments should be an array')
+  }
+
+  return entries.flatMap((entry: unknown, index): ParsedSegment[] => {
+    const { file, segments } = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>
+    if (!Array.isArray(segments)) {
+      return [jsonSegment(entry, `element ${index}`)]
+    }
+    return segments.map((segment: unknown, segmentIndex) => ({
+      ...jsonSegment(segment, `element ${index}, segment ${segmentIndex}`),
+      ...(typeof file === 'string' && { fileId: file }),
+    }))
+  })
+}
+
+/**
+ * Check that a JSON value is a segment with finite times, ending no earlier than it starts
+ */
+const jsonSegment = (value: unknown, location: string): ParsedSegment => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw parseError('json', `${location} should be a segment object`)
+  }
+  const { start, end } = value as Record<string, unknown>
+  if (typeof start !== 'number' || !Number.isFinite(start) || typeof end !== 'number' || !Number.isFinite(end)) {
+    throw parseError('json', `${location} should have numeric start and end times`)
+  }
+  if (end < start) {
+    throw parseError('json', `${location} ends before it starts`)
+  }
+  return value as ParsedSegment
+}
+
+/**
+ * Get the channel a segment should be written with
+ */
+const channelOf = (segment: SpeechSegment, options: FormatSegmentsOptions): number | undefined =>
+  segment.channel ?? options.channel
+
+/**
+ * Text of a cue or label: the label, followed by the channel when there is one
+ */
+const cueText = (segment: SpeechSegment, options: FormatSegmentsOptions): string => {
+  const { label = 'speech' } = options
+  const channel = channelOf(segment, options)
+  return channel === undefined ? label : `${label} (channel ${channel})`
+}
+
+/**
+ * Split cue text written by `cueText` back into its label and channel
+ */
+const parseCueText = (text: string): Pick<ParsedSegment, 'label' | 'channel'> => {
+  const match = text.match(/^(.*) \(channel (\d+)\)$/)
+  return match ? { label: match[1], channel: Number(match[2]) } : { label: text }
+}
+
+/**
+ * Read the timed cues of SRT or WebVTT text
+ */
+const parseCues = (text: string): ParsedSegment[] => {
+  const segments: ParsedSegment[] = []
+  const cueTime = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/
+
+  for (const block of text.split(/\r?\n\s*\r?\n/)) {
+    const lines = block.split(/\r?\n/)
+    const timeLine = lines.findIndex((line) => cueTime.test(line.trim()))
+    if (timeLine === -1) {
+      continue
+    }
+
+    const [, start, end] = lines[timeLine]?.trim().match(cueTime) as RegExpMatchArray
+    segments.push({
+      start: parseTimestamp(start as string),
+      end: parseTimestamp(end as string),
+      ...parseCueText(
+        lines
+          .slice(timeLine + 1)
+          .join('\n')
+          .trim(),
+      ),
+    })
+  }
+
+  return segments
+}
+
+/**
+ * Convert milliseconds to seconds with millisecond precision
+ */
+const seconds = (ms: number): string => (ms / 1000).toFixed(3)
+
+/**
+ * Parse a number of seconds into milliseconds
+ */
+const parseSeconds = (value: string, format: SegmentFormat, line: number): number => {
+  const number = Number(value)
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    throw parseError(format, `invalid time ${JSON.stringify(value)}`, line)
+  }
+  return Math.round(number * 1_000_000) / 1000
+}
+
+/**
+ * Parse a channel number into a 0-based channel
+ * @param first Number of the first channel in the format
+ */
+const parseChannel = (value: string, format: SegmentFormat, line: number, first: number = 0): number => {
+  if (!/^\d+$/.test(value) || Number(value) < first) {
+    throw parseError(format, `invalid channel ${JSON.stringify(value)}`, line)
+  }
+  return Number(value) - first
+}
+
+/**
+ * Format milliseconds as an `HH:MM:SS<separator>mmm` timestamp
+ */
+const timestamp = (ms: number, separator: string): string => {
+  const total = Math.max(0, Math.round(ms))
+  const hours = Math.floor(total / 3_600_000)
+  const minutes = Math.floor(total / 60_000) % 60
+  const secs = Math.floor(total / 1000) % 60
+  const millis = total % 1000
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(millis, 3)}`
+}
+
+/**
+ * Parse an `[HH:]MM:SS[.,]mmm` timestamp into milliseconds
+ */
+const parseTimestamp = (value: string): number => {
+  const [clock = '', fraction = '0'] = value.split(/[.,]/)
+  const parts = clock.split(':').map(Number)
+  const [hours, minutes, secs] = parts.length === 3 ? parts : [0, ...parts]
+  return (
+    ((hours as number) * 3600 + (minutes as number) * 60 + (secs as number)) * 1000 + Number(fraction.padEnd(3, '0'))
+  )
+}
+
+/**
+ * Quote a CSV field if it contains a separator, quote or line break
+ */
+const csvField = (value: string): string => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+/**
+ * Split a CSV line into fields, handling quoted fields
+ */
+const splitCSVLine = (line: string): string[] => {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  fields.push(field)
+  return fields
+}
+
+/**
+ * Quote a string for a Praat text file
+ */
+const praatString = (value: string): string => `"${value.replace(/"/g, '""')}"`
+
+/**
+ * Unquote a Praat text file string
+ */
+const parsePraatString = (quoted: string): string => quoted.slice(1, -1).replace(/""/g, '"')
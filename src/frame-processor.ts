@@ -5,11 +5,10 @@
  * implementation approach from https://github.com/snakers4/silero-vad
  */
 
-import type { SpeechProbabilities } from './models'
+import { MODEL_FRAME_SAMPLES, type ModelVersion, type SpeechProbabilities } from './models'
 import { Message } from './messages'
-
-/** Recommended frame sizes for optimal model performance */
-const RECOMMENDED_FRAME_SAMPLES = [512, 1024, 1536]
+import { InvalidOptionsError, type OptionIssue } from './errors'
+import { logger, type Logger } from './logger'
 
 /**
  * Configuration options for the frame processor
@@ -40,7 +39,8 @@ export interface FrameProcessorOptions {
    * frames. The authors of the Silero VAD model offer the following warning:
    * > WARNING! Silero VAD models were trained using 512, 1024, 1536 samples for 16000 sample rate and
    * > 256, 512, 768 samples for 8000 sample rate. Values other than these may affect model performance!
-   * In this context, audio fed to the VAD model always has sample rate 16000. It is recommended to leave this at 1536.
+   * In this context, audio fed to the VAD model always has sample rate 16000. It is recommended to leave this at 1536
+   * for the v4 model. The v5 model only accepts 512.
    */
   frameSamples: number
 
@@ -75,29 +75,143 @@ export const defaultFrameProcessorOptions: FrameProcessorOptions = {
 }
 
 /**
- * Validates the frame processor options for common issues
- * Logs warnings or errors if problematic values are detected
+ * Millisecond equivalents of the frame counts of the frame processor options
+ *
+ * They are converted to frames using the frame size in use (rounding up to whole frames) and take precedence over the
+ * frame counts, so their meaning doesn't change with `frameSamples`.
+ */
+export interface FrameDurationOptions {
+  /** Silence in milliseconds that ends a speech segment (sets `redemptionFrames`) */
+  redemptionMs?: number
+  /** Audio in milliseconds kept before speech starts (sets `preSpeechPadFrames`) */
+  preSpeechPadMs?: number
+  /** Speech in milliseconds a segment needs to count (sets `minSpeechFrames`) */
+  minSpeechMs?: number
+}
+
+/**
+ * How invalid options are handled
+ *
+ * - `warn`: log each problem and carry on, only throwing for frame sizes the model can't process
+ * - `strict`: throw an `InvalidOptionsError` listing every problem
+ */
+export type ValidationMode = 'warn' | 'strict'
+
+/** Sample rate of the frames run through the model */
+const MODEL_SAMPLE_RATE = 16000
+
+/** Frame count options set by each millisecond option */
+const FRAME_DURATION_OPTIONS = {
+  redemptionMs: 'redemptionFrames',
+  preSpeechPadMs: 'preSpeechPadFrames',
+  minSpeechMs: 'minSpeechFrames',
+} as const
+
+/**
+ * Convert the millisecond options to frame counts for the frame size in use
+ * @param options Frame processor options, with optional millisecond equivalents
+ * @returns The options with the frame counts set from the millisecond options that are given
+ */
+export function resolveFrameDurations<T extends FrameProcessorOptions & FrameDurationOptions>(options: T): T {
+  const frameMs = (options.frameSamples / MODEL_SAMPLE_RATE) * 1000
+  const resolved = { ...options }
+
+  for (const [durationOption, framesOption] of Object.entries(FRAME_DURATION_OPTIONS)) {
+    const ms = options[durationOption as keyof FrameDurationOptions]
+    // Invalid durations are left for validation to report
+    if (ms !== undefined && Number.isFinite(ms) && ms >= 0 && frameMs > 0) {
+      resolved[framesOption] = Math.ceil(ms / frameMs - 1e-9)
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * Find every problem with the frame processor options
+ * @param options Frame processor options, with optional millisecond equivalents
+ * @param modelVersion Version of the model the options are used with
+ * @returns Invalid options, empty if there are none
  */
-export function validateOptions(options: FrameProcessorOptions): void {
-  if (!RECOMMENDED_FRAME_SAMPLES.includes(options.frameSamples)) {
-    console.warn('Using an unusual frame size that may affect model performance.')
-    console.warn(`Recommended values for 16kHz audio: ${RECOMMENDED_FRAME_SAMPLES.join(', ')}`)
+export function findOptionIssues(
+  options: FrameProcessorOptions & FrameDurationOptions,
+  modelVersion: ModelVersion = 'v4',
+): OptionIssue[] {
+  const issues: OptionIssue[] = []
+  const recommendedFrameSamples = MODEL_FRAME_SAMPLES[modelVersion]
+
+  if (!Number.isInteger(options.frameSamples) || options.frameSamples <= 0) {
+    issues.push({ field: 'frameSamples', message: `should be a positive integer, got ${options.frameSamples}` })
+  } else if (modelVersion === 'v5' && !recommendedFrameSamples.includes(options.frameSamples)) {
+    issues.push({
+      field: 'frameSamples',
+      message: `${options.frameSamples} is not supported by the v5 model (expected ${recommendedFrameSamples.join(', ')})`,
+    })
+  }
+
+  for (const field of ['positiveSpeechThreshold', 'negativeSpeechThreshold'] as const) {
+    const value = options[field]
+    if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+      issues.push({ field, message: `should be a number between 0 and 1, got ${value}` })
+    }
   }
+  if (options.negativeSpeechThreshold > options.positiveSpeechThreshold) {
+    issues.push({
+      field: 'negativeSpeechThreshold',
+      message: `should not be over positiveSpeechThreshold (${options.positiveSpeechThreshold}), got ${options.negativeSpeechThreshold}`,
+    })
+  }
+
+  for (const field of ['redemptionFrames', 'preSpeechPadFrames', 'minSpeechFrames'] as const) {
+    const value = options[field]
+    if (!Number.isInteger(value) || value < 0) {
+      issues.push({ field, message: `should be a non-negative integer, got ${value}` })
+    }
+  }
+
+  for (const field of Object.keys(FRAME_DURATION_OPTIONS) as (keyof FrameDurationOptions)[]) {
+    const value = options[field]
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+      issues.push({ field, message: `should be a non-negative number of milliseconds, got ${value}` })
+    }
+  }
+
+  return issues
+}
 
-  if (options.positiveSpeechThreshold < 0 || options.positiveSpeechThreshold > 1) {
-    console.error('positiveSpeechThreshold should be a number between 0 and 1')
+/**
+ * Validates the frame processor options for common issues
+ *
+ * In `warn` mode, logs warnings or errors if problematic values are detected, and only throws if the frame size is not
+ * supported by the model version at all. In `strict` mode, throws an `InvalidOptionsError` listing every problem.
+ */
+export function validateOptions(
+  options: FrameProcessorOptions & FrameDurationOptions,
+  modelVersion: ModelVersion = 'v4',
+  mode: ValidationMode = 'warn',
+  log: Logger = logger,
+): void {
+  const issues = findOptionIssues(options, modelVersion)
+  const recommendedFrameSamples = MODEL_FRAME_SAMPLES[modelVersion]
+
+  if (mode === 'strict' && issues.length > 0) {
+    throw new InvalidOptionsError(issues)
   }
 
-  if (options.negativeSpeechThreshold < 0 || options.negativeSpeechThreshold > options.positiveSpeechThreshold) {
-    console.error('negativeSpeechThreshold should be between 0 and positiveSpeechThreshold')
+  const frameSamplesIssues = issues.filter(({ field }) => field === 'frameSamples')
+  if (frameSamplesIssues.length > 0) {
+    throw new InvalidOptionsError(frameSamplesIssues)
   }
 
-  if (options.preSpeechPadFrames < 0) {
-    console.error('preSpeechPadFrames should be positive')
+  if (!recommendedFrameSamples.includes(options.frameSamples)) {
+    log.warn('Using an unusual frame size that may affect model performance', {
+      frameSamples: options.frameSamples,
+      recommended: recommendedFrameSamples,
+    })
   }
 
-  if (options.redemptionFrames < 0) {
-    console.error('redemptionFrames should be positive')
+  for (const { field, message } of issues) {
+    log.error(`Invalid option: ${field} ${message}`, { field })
   }
 }
 
@@ -261,29 +375,32 @@ export class FrameProcessor {
     }
 
     // Speech end detection with redemption period
-    if (
-      probs.isSpeech < this.options.negativeSpeechThreshold &&
-      this.speaking &&
-      ++this.redemptionCounter >= this.options.redemptionFrames
-    ) {
-      this.redemptionCounter = 0
-      this.speaking = false
-
-      const audioBuffer = this.audioBuffer
-      this.audioBuffer = []
-
-      // Count frames marked as speech
-      const speechFrameCount = audioBuffer.reduce((acc, item) => {
-        return acc + +item.isSpeech
-      }, 0)
+    if (probs.isSpeech < this.options.negativeSpeechThreshold && this.speaking) {
+      if (++this.redemptionCounter >= this.options.redemptionFrames) {
+        this.redemptionCounter = 0
+        this.speaking = false
+
+        const audioBuffer = this.audioBuffer
+        this.audioBuffer = []
+
+        // Count frames marked as speech
+        const speechFrameCount = audioBuffer.reduce((acc, item) => {
+          return acc + +item.isSpeech
+        }, 0)
+
+        if (speechFrameCount >= this.options.minSpeechFrames) {
+          // Valid speech segment detected
+          const audio = concatArrays(audioBuffer.map((item) => item.frame))
+          return { probs, msg: Message.SpeechEnd, audio }
+        } else {
+          // Too short to be considered speech
+          return { probs, msg: Message.VADMisfire }
+        }
+      }
 
-      if (speechFrameCount >= this.options.minSpeechFrames) {
-        // Valid speech segment detected
-        const audio = concatArrays(audioBuffer.map((item) => item.frame))
-        return { probs, msg: Message.SpeechEnd, audio }
-      } else {
-        // Too short to be considered speech
-        return { probs, msg: Message.VADMisfire }
+      // First frame of the redemption period
+      if (this.redemptionCounter === 1) {
+        return { probs, msg: Message.SpeechStop }
       }
     }
 
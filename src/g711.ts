@@ -0,0 +1,152 @@
+/**
+ * G.711 companding laws: µ-law (North America, Japan) and A-law (Europe, most other countries)
+ */
+export type G711Law = 'mulaw' | 'alaw'
+
+/** Bias added to µ-law magnitudes before encoding */
+const MULAW_BIAS = 0x84
+
+/** Largest magnitude µ-law can encode once the bias is added */
+const MULAW_CLIP = 32635
+
+/**
+ * Expand a µ-law byte to a 16-bit linear value
+ */
+const expandMuLaw = (byte: number): number => {
+  const value = ~byte & 0xff
+  const exponent = (value >> 4) & 0x07
+  const mantissa = value & 0x0f
+  const magnitude = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS
+  return value & 0x80 ? -magnitude : magnitude
+}
+
+/**
+ * Expand an A-law byte to a 16-bit linear value
+ */
+const expandALaw = (byte: number): number => {
+  const value = byte ^ 0x55
+  const exponent = (value >> 4) & 0x07
+  const mantissa = value & 0x0f
+  const magnitude = exponent === 0 ? (mantissa << 4) + 8 : ((mantissa << 4) + 0x108) << (exponent - 1)
+  // Unlike µ-law, a set sign bit means a positive value
+  return value & 0x80 ? magnitude : -magnitude
+}
+
+/** Normalized sample for every µ-law byte */
+const MULAW_TABLE = Float32Array.from({ length: 256 }, (_, byte) => expandMuLaw(byte) / 32768)
+
+/** Normalized sample for every A-law byte */
+const ALAW_TABLE = Float32Array.from({ length: 256 }, (_, byte) => expandALaw(byte) / 32768)
+
+/**
+ * Convert a normalized sample to a clamped 16-bit integer
+ */
+const toInt16 = (sample: number): number => Math.max(-32768, Math.min(32767, Math.round(sample * 32768)))
+
+/**
+ * Decode a single µ-law byte
+ * @param byte µ-law encoded sample
+ * @returns Sample normalized to [-1.0, 1.0]
+ */
+export const decodeMuLawSample = (byte: number): number => MULAW_TABLE[byte & 0xff] as number
+
+/**
+ * Decode a single A-law byte
+ * @param byte A-law encoded sample
+ * @returns Sample normalized to [-1.0, 1.0]
+ */
+export const decodeALawSample = (byte: number): number => ALAW_TABLE[byte & 0xff] as number
+
+/**
+ * Decode G.711 µ-law audio (one byte per sample)
+ * @param data µ-law encoded samples
+ * @returns Samples normalized to [-1.0, 1.0]
+ */
+export function decodeMuLaw(data: Uint8Array): Float32Array {
+  const samples = new Float32Array(data.length)
+  for (let i = 0; i < data.length; i++) {
+    samples[i] = MULAW_TABLE[data[i] as number] as number
+  }
+  return samples
+}
+
+/**
+ * Decode G.711 A-law audio (one byte per sample)
+ * @param data A-law encoded samples
+ * @returns Samples normalized to [-1.0, 1.0]
+ */
+export function decodeALaw(data: Uint8Array): Float32Array {
+  const samples = new Float32Array(data.length)
+  for (let i = 0; i < data.length; i++) {
+    samples[i] = ALAW_TABLE[data[i] as number] as number
+  }
+  return samples
+}
+
+/**
+ * Decode G.711 audio with either companding law
+ * @param data Encoded samples
+ * @param law Companding law of the data
+ * @returns Samples normalized to [-1.0, 1.0]
+ */
+export function decodeG711(data: Uint8Array, law: G711Law): Float32Array {
+  return law === 'mulaw' ? decodeMuLaw(data) : decodeALaw(data)
+}
+
+/**
+ * Encode audio as G.711 µ-law, e.g. to send audio back over a telephony media stream
+ * @param samples Samples normalized to [-1.0, 1.0]
+ * @returns µ-law encoded samples
+ */
+export function encodeMuLaw(samples: Float32Array): Buffer {
+  const data = Buffer.alloc(samples.length)
+  for (let i = 0; i < samples.length; i++) {
+    let value = toInt16(samples[i] as number)
+    const sign = value < 0 ? 0x80 : 0
+    value = Math.min(Math.abs(value), MULAW_CLIP) + MULAW_BIAS
+
+    // Position of the highest set bit above the 8 bits covered by exponent 0
+    let exponent = 7
+    for (let mask = 0x4000; (value & mask) === 0 && exponent > 0; mask >>= 1) {
+      exponent--
+    }
+    const mantissa = (value >> (exponent + 3)) & 0x0f
+
+    data[i] = ~(sign | (exponent << 4) | mantissa) & 0xff
+  }
+  return data
+}
+
+/**
+ * Encode audio as G.711 A-law
+ * @param samples Samples normalized to [-1.0, 1.0]
+ * @returns A-law encoded samples
+ */
+export function encodeALaw(samples: Float32Array): Buffer {
+  const data = Buffer.alloc(samples.length)
+  for (let i = 0; i < samples.length; i++) {
+    const value = toInt16(samples[i] as number)
+    const sign = value >= 0 ? 0x80 : 0
+    const magnitude = value >= 0 ? value : -value - 1
+
+    let exponent = 0
+    let mantissa = magnitude >> 4
+    if (magnitude >= 0x100) {
+      exponent = Math.floor(Math.log2(magnitude)) - 7
+      mantissa = (magnitude >> (exponent + 3)) & 0x0f
+    }
+
+    data[i] = (sign | (exponent << 4) | mantissa) ^ 0x55
+  }
+  return data
+}
+
+/**
+ * Encode audio with either G.711 companding law
+ * @param samples Samples normalized to [-1.0, 1.0]
+ * @param law Companding law to encode with
+ * @returns Encoded samples
+ */
+export function encodeG711(samples: Float32Array, law: G711Law): Buffer {
+  return law === 'mulaw' ? encodeMuLaw(samples) : encodeALaw(samples)
+}
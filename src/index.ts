@@ -6,9 +6,190 @@
  */
 
 // Core VAD functionality
-export { VAD, type VADOptions, type SpeechSegment } from './vad'
+export {
+  VAD,
+  VADStream,
+  VADSession,
+  type VADOptions,
+  type SpeechSegment,
+  type VADStreamOptions,
+  type VADEvent,
+  type SegmentAudioMode,
+} from './vad'
 export { Message } from './messages'
-export { type FrameProcessorOptions } from './frame-processor'
+export {
+  validateOptions,
+  findOptionIssues,
+  resolveFrameDurations,
+  type FrameProcessorOptions,
+  type FrameDurationOptions,
+  type ValidationMode,
+} from './frame-processor'
+export { type ModelVersion, type ModelFetcher, type OrtOptions, type OrtSessionOptions } from './models'
+export { DEFAULT_MODEL_PATH, clearModelCache, type ModelSource } from './model-loader'
 
 // MP3 processing functionality
-export { processMP3File, checkLameInstallation, type ProcessMP3Options, processMP3Segments } from './mp3'
+export {
+  processMP3File,
+  checkLameInstallation,
+  type ProcessMP3Options,
+  type ProcessMP3Result,
+  processMP3Segments,
+  decodeMP3Channels,
+  decodeMP3Stream,
+  encodeMP3,
+  writeMP3,
+  saveMP3File,
+  type MP3EncodeOptions,
+  type ID3Tags,
+} from './mp3'
+
+// WAV processing functionality
+export {
+  processWAVFile,
+  processWAVSegments,
+  decodeWAV,
+  readWAV,
+  readWAVStream,
+  parseWAV,
+  encodeWAV,
+  saveWAVFile,
+  type ProcessWAVOptions,
+  type ProcessWAVResult,
+  type WAVData,
+  type WAVFormat,
+  type WAVEncodeOptions,
+  type WAVStream,
+  type WAVStreamOptions,
+} from './wav'
+
+// Decoding of arbitrary audio formats
+export {
+  processAudioFile,
+  decodeAudioFile,
+  decodeAudioStream,
+  streamAudioSegments,
+  registerDecoder,
+  unregisterDecoder,
+  getDecoders,
+  findDecoder,
+  mp3Decoder,
+  wavDecoder,
+  ffmpegDecoder,
+  type AudioDecoder,
+  type DecodedAudio,
+  type ProcessAudioFileOptions,
+  type StreamAudioOptions,
+} from './decoders'
+export { checkFFmpegInstallation, decodeFFmpegChannels, decodeFFmpegStream } from './ffmpeg'
+export { type AudioSource, type DecodedAudioStream } from './audio-stream'
+export {
+  processAudioData,
+  downmix,
+  type ProcessAudioOptions,
+  type ProcessAudioResult,
+  type DownmixStrategy,
+  type ChannelMode,
+} from './audio'
+
+// Node.js stream integration
+export { VADTransform, type VADTransformOptions, type PCMEncoding } from './transform'
+
+// Telephony audio
+export { decodeMuLaw, decodeALaw, decodeG711, encodeMuLaw, encodeALaw, encodeG711, type G711Law } from './g711'
+export {
+  MediaStreamAdapter,
+  type MediaStreamAdapterOptions,
+  type MediaStreamCall,
+  type MediaStreamEvent,
+  type MediaStreamMessage,
+  type MediaStreamSocket,
+} from './media-stream'
+
+// Logging
+export {
+  setLogger,
+  silentLogger,
+  consoleLogger,
+  pinoLogger,
+  winstonLogger,
+  type Logger,
+  type LogLevel,
+  type LogContext,
+  type PinoLike,
+  type WinstonLike,
+} from './logger'
+
+// Errors
+export {
+  VADError,
+  ModelLoadError,
+  InferenceError,
+  DecoderNotFoundError,
+  DecodeError,
+  EncodeError,
+  SegmentParseError,
+  InvalidOptionsError,
+  VADStateError,
+  type ErrorDetails,
+  type OptionIssue,
+} from './errors'
+
+// Silence compaction
+export {
+  compactAudio,
+  compactAudioFile,
+  toOriginalTime,
+  toCompactedTime,
+  type CompactionOptions,
+  type CompactionResult,
+  type CompactionMapEntry,
+  type CompactionFormat,
+  type CompactAudioFileOptions,
+} from './compaction'
+
+// Chunking for speech recognition
+export {
+  chunkSegments,
+  chunkAudio,
+  chunkAudioFile,
+  type ChunkOptions,
+  type ChunkAudioOptions,
+  type ChunkAudioFileOptions,
+  type ChunkAudioResult,
+  type SpeechChunk,
+} from './chunker'
+
+// Segment post-processing
+export {
+  postProcessSegments,
+  SegmentPostProcessor,
+  hasPostProcessing,
+  validatePostProcessOptions,
+  findPostProcessIssues,
+  type PostProcessOptions,
+  type PostProcessContext,
+} from './post-process'
+
+// Segment formats
+export {
+  formatSegments,
+  parseSegments,
+  toCSV,
+  parseCSV,
+  toSRT,
+  parseSRT,
+  toWebVTT,
+  parseWebVTT,
+  toRTTM,
+  parseRTTM,
+  toAudacityLabels,
+  parseAudacityLabels,
+  toTextGrid,
+  parseTextGrid,
+  SEGMENT_FORMATS,
+  SEGMENT_FORMAT_EXTENSIONS,
+  type SegmentFormat,
+  type FormatSegmentsOptions,
+  type ParsedSegment,
+} from './formats'
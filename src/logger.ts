@@ -1,26 +1,146 @@
-const isProduction = process.env.NODE_ENV === 'production'
+/**
+ * Severity of a log message
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Structured details attached to a log message
+ */
+export type LogContext = Record<string, unknown>
+
+/**
+ * Levelled logger the package writes its progress and problems to
+ *
+ * Pass one through the `logger` option of `VAD.create` (and the processing functions), or set the package-wide
+ * default with `setLogger`. `pinoLogger` and `winstonLogger` adapt existing loggers.
+ */
+export interface Logger {
+  /** Detailed progress, e.g. model initialization */
+  debug(message: string, context?: LogContext): void
+  /** Notable progress, e.g. which model file is loaded */
+  info(message: string, context?: LogContext): void
+  /** Questionable configuration or input that processing continues with */
+  warn(message: string, context?: LogContext): void
+  /** Failures, usually followed by a thrown error */
+  error(message: string, context?: LogContext): void
+}
+
+/** Order of the log levels, from the most to the least verbose */
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+/**
+ * Logger that drops every message. The default, so the package stays quiet unless asked otherwise
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+}
 
 /**
- * Simple logger that only outputs messages when NODE_ENV is not 'production'.
+ * Logger writing one line per message to stderr, such as `[info] Loading model {"path":"silero_vad.onnx"}`
+ * @param level Least severe level to write (defaults to 'info')
+ * @param stream Stream to write to (defaults to stderr)
  */
-export const logger = {
-  /**
-   * Logs messages to the console if not in production.
-   * @param {...any} args Arguments to log.
-   */
-  log: (...args: any[]) => {
-    if (!isProduction) {
-      console.log(...args)
+export function consoleLogger(
+  level: LogLevel = 'info',
+  stream: { write(text: string): unknown } = process.stderr,
+): Logger {
+  const write =
+    (messageLevel: LogLevel) =>
+    (message: string, context?: LogContext): void => {
+      if (LOG_LEVELS.indexOf(messageLevel) < LOG_LEVELS.indexOf(level)) {
+        return
+      }
+      const details = context && Object.keys(context).length > 0 ? ` ${JSON.stringify(context, serializeErrors)}` : ''
+      stream.write(`[${messageLevel}] ${message}${details}\n`)
     }
-  },
-
-  /**
-   * Logs error messages to the console if not in production.
-   * @param {...any} args Arguments to log as errors.
-   */
-  error: (...args: any[]) => {
-    if (!isProduction) {
-      console.error(...args)
+
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') }
+}
+
+/**
+ * Logger with pino's (or bunyan's) call signature: the context object comes first
+ */
+export interface PinoLike {
+  debug(context: object, message?: string): void
+  info(context: object, message?: string): void
+  warn(context: object, message?: string): void
+  error(context: object, message?: string): void
+}
+
+/**
+ * Adapt a pino (or bunyan) logger. An `error` in the context is passed as `err`, so pino's error serializer applies
+ * @param pino Pino logger, or a child logger
+ */
+export function pinoLogger(pino: PinoLike): Logger {
+  const write =
+    (level: LogLevel) =>
+    (message: string, context: LogContext = {}): void => {
+      const { error, ...rest } = context
+      pino[level](error !== undefined ? { ...rest, err: error } : rest, message)
     }
-  },
+
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') }
+}
+
+/**
+ * Logger with winston's call signature: the message comes first, followed by metadata
+ */
+export interface WinstonLike {
+  debug(message: string, meta?: object): unknown
+  info(message: string, meta?: object): unknown
+  warn(message: string, meta?: object): unknown
+  error(message: string, meta?: object): unknown
+}
+
+/**
+ * Adapt a winston logger
+ * @param winston Winston logger, or a child logger
+ */
+export function winstonLogger(winston: WinstonLike): Logger {
+  const write =
+    (level: LogLevel) =>
+    (message: string, context?: LogContext): void => {
+      winston[level](message, context)
+    }
+
+  return { debug: write('debug'), info: write('info'), warn: write('warn'), error: write('error') }
+}
+
+/** Package-wide logger, used where no logger is passed in */
+let defaultLogger: Logger = silentLogger
+
+/**
+ * Set the logger used where none is passed in, e.g. by the decoders and encoders
+ * @param logger Logger to use, or undefined to go back to the silent default
+ */
+export function setLogger(logger: Logger | undefined): void {
+  defaultLogger = logger ?? silentLogger
+}
+
+/**
+ * Get the logger to use: the one passed in, or else the package-wide logger
+ * @param logger Logger passed through the options, if any
+ */
+export function getLogger(logger?: Logger): Logger {
+  return logger ?? defaultLogger
+}
+
+/**
+ * Package-wide logger, forwarding to the logger set with `setLogger`
+ */
+export const logger: Logger = {
+  debug: (message, context) => defaultLogger.debug(message, context),
+  info: (message, context) => defaultLogger.info(message, context),
+  warn: (message, context) => defaultLogger.warn(message, context),
+  error: (message, context) => defaultLogger.error(message, context),
+}
+
+/**
+ * Write errors in log context as their name and message, which JSON.stringify would otherwise drop
+ */
+function serializeErrors(_key: string, value: unknown): unknown {
+  return value instanceof Error ? { name: value.name, message: value.message } : value
 }
@@ -0,0 +1,402 @@
+import { EventEmitter } from 'events'
+import { getLogger, type Logger } from './logger'
+import { decodeG711, type G711Law } from './g711'
+import type { SegmentAudioMode, VAD, VADEvent, VADStream } from './vad'
+import type { ResampleQuality } from './resampler'
+import { DecodeError } from './errors'
+
+/** Media stream encodings, as named by Twilio (`audio/x-mulaw`) and Telnyx (`PCMU`) */
+const MEDIA_ENCODINGS: Record<string, G711Law> = {
+  'audio/x-mulaw': 'mulaw',
+  'audio/x-alaw': 'alaw',
+  PCMU: 'mulaw',
+  PCMA: 'alaw',
+}
+
+/** Sample rate of G.711 telephony audio in Hz */
+const DEFAULT_MEDIA_SAMPLE_RATE = 8000
+
+/** Track name used when a media message doesn't name its track */
+const DEFAULT_TRACK = 'inbound'
+
+/**
+ * Media stream message in the Twilio/Telnyx JSON protocol
+ *
+ * Only the fields used by the adapter are listed. Twilio names the stream `streamSid`; Telnyx uses `stream_id` and
+ * snake_case fields in the `start` message.
+ */
+export interface MediaStreamMessage {
+  /** Message type: `connected`, `start`, `media`, `stop`, `mark`, `dtmf`, ... */
+  event: string
+  /** Stream identifier (Twilio) */
+  streamSid?: string
+  /** Stream identifier (Telnyx) */
+  stream_id?: string
+  /** Stream metadata (`start` only) */
+  start?: {
+    streamSid?: string
+    callSid?: string
+    call_control_id?: string
+    tracks?: string[]
+    customParameters?: Record<string, string>
+    mediaFormat?: { encoding: string; sampleRate: number; channels?: number }
+    media_format?: { encoding: string; sample_rate: number; channels?: number }
+  }
+  /** Audio payload (`media` only) */
+  media?: {
+    /** Track the audio belongs to (`inbound` or `outbound`) */
+    track?: string
+    /** Base64 encoded G.711 audio */
+    payload: string
+  }
+}
+
+/**
+ * Call carried by a media stream
+ */
+export interface MediaStreamCall {
+  /** Stream identifier */
+  streamSid: string
+  /** Call identifier (Twilio `callSid` or Telnyx `call_control_id`), if the provider sent one */
+  callSid?: string
+  /** Companding law of the audio */
+  encoding: G711Law
+  /** Sample rate of the audio in Hz */
+  sampleRate: number
+  /** Custom parameters passed to the stream (Twilio `<Parameter>`s) */
+  customParameters: Record<string, string>
+}
+
+/**
+ * VAD event of a call, labelled with the stream and track it belongs to
+ */
+export interface MediaStreamEvent extends VADEvent {
+  /** Stream identifier */
+  streamSid: string
+  /** Call identifier, if the provider sent one */
+  callSid?: string
+  /** Track the audio belongs to (`inbound` or `outbound`) */
+  track: string
+}
+
+/**
+ * Options for the media stream adapter
+ */
+export interface MediaStreamAdapterOptions {
+  /** Tracks to run the VAD on. Defaults to all tracks */
+  tracks?: string[]
+  /** Whether to emit a `Message.AudioFrame` event for every processed frame */
+  frameEvents?: boolean
+  /** Audio to include in each detected speech segment (defaults to the VAD's option) */
+  segmentAudio?: SegmentAudioMode
+  /** Quality of the filter used to resample the 8kHz audio to 16kHz (defaults to the VAD's option) */
+  resampleQuality?: ResampleQuality
+  /** Logger for stream starts, stops and ignored messages (defaults to the package logger) */
+  logger?: Logger
+}
+
+/**
+ * Minimal WebSocket interface used by `MediaStreamAdapter.attach`, implemented by `ws` WebSockets and by any
+ * `EventEmitter` emitting `message` and `close` events
+ */
+export interface MediaStreamSocket {
+  on(event: 'message', listener: (data: string | Buffer | ArrayBuffer | Buffer[]) => void): unknown
+  on(event: 'close', listener: () => void): unknown
+}
+
+/**
+ * State of an active media stream
+ */
+interface ActiveCall {
+  call: MediaStreamCall
+  /** VAD stream of each track, created when the track's first audio arrives */
+  tracks: Map<string, VADStream>
+}
+
+export interface MediaStreamAdapter {
+  /** A stream started */
+  on(event: 'start', listener: (call: MediaStreamCall) => void): this
+  /** The VAD detected an event on one of the tracks of a stream */
+  on(event: 'event', listener: (event: MediaStreamEvent) => void): this
+  /** A stream stopped (or its socket closed), after its last events were emitted */
+  on(event: 'stop', listener: (call: MediaStreamCall) => void): this
+  /** A message arriving through an attached socket could not be processed */
+  on(event: 'error', listener: (error: Error) => void): this
+}
+
+/**
+ * Adapter running the VAD on telephony media streams (Twilio Media Streams, Telnyx media streaming)
+ *
+ * Consumes the `start`/`media`/`stop` JSON messages of the protocol, decodes the base64 G.711 payloads and runs each
+ * track of each stream through its own VAD stream, emitting the speech events labelled with the `streamSid`:
+ *
+ * ```ts
+ * const adapter = new MediaStreamAdapter(vad)
+ * adapter.on('event', (event) => console.log(event.streamSid, event.msg, event.time))
+ * wss.on('connection', (socket) => adapter.attach(socket))
+ * ```
+ *
+ * The messages of each stream are processed one at a time in arrival order, while different streams run
+ * concurrently, so the VAD batches the frames of calls that arrive together into shared inferences.
+ */
+export class MediaStreamAdapter extends EventEmitter {
+  /** Active streams by `streamSid` */
+  private calls = new Map<string, ActiveCall>()
+
+  /** Processing of the previous message of each stream, so each stream's messages are handled in order */
+  private queues = new Map<string, Promise<unknown>>()
+
+  /**
+   * Creates a new media stream adapter
+   * @param vad Initialized VAD instance
+   * @param options Adapter options
+   */
+  constructor(
+    private vad: VAD,
+    private options: MediaStreamAdapterOptions = {},
+  ) {
+    super()
+  }
+
+  /**
+   * Identifiers of the streams that have started and not stopped yet
+   */
+  get activeStreams(): string[] {
+    return [...this.calls.keys()]
+  }
+
+  /**
+   * Process the messages of a WebSocket connection
+   *
+   * Streams started on the socket are stopped when it closes. Errors are emitted as `error` events.
+   * @param socket WebSocket (or stand-in) receiving media stream messages
+   */
+  attach(socket: MediaStreamSocket): void {
+    const streamSids = new Set<string>()
+
+    socket.on('message', (data) => {
+      let message: MediaStreamMessage
+      try {
+        message = parseMessage(data)
+      } catch (error) {
+        this.emit('error', error)
+        return
+      }
+
+      const streamSid = streamSidOf(message)
+      if (message.event === 'start' && streamSid) {
+        streamSids.add(streamSid)
+      }
+      this.handleMessage(message).catch((error) => this.emit('error', error))
+    })
+
+    socket.on('close', () => {
+      for (const streamSid of streamSids) {
+        this.stop(streamSid).catch((error) => this.emit('error', error))
+      }
+    })
+  }
+
+  /**
+   * Process a single media stream message
+   * @param data Message as received from the socket (JSON string or `Buffer`), or already parsed
+   * @returns VAD events detected while processing the message (also emitted as `event` events)
+   */
+  handleMessage(data: string | Buffer | MediaStreamMessage): Promise<MediaStreamEvent[]> {
+    let message: MediaStreamMessage
+    try {
+      message = parseMessage(data)
+    } catch (error) {
+      return Promise.reject(error)
+    }
+
+    return this.enqueue(streamSidOf(message), () => this.process(message))
+  }
+
+  /**
+   * Stop a stream, closing any speech segment that is still open
+   * @param streamSid Stream identifier
+   * @returns VAD events of the closed segments
+   */
+  stop(streamSid: string): Promise<MediaStreamEvent[]> {
+    return this.enqueue(streamSid, async () => this.stopCall(streamSid))
+  }
+
+  /**
+   * Run a task after the tasks queued before it for the same stream
+   */
+  private enqueue<T>(streamSid: string | undefined, task: () => Promise<T>): Promise<T> {
+    const key = streamSid ?? ''
+    const result = (this.queues.get(key) ?? Promise.resolve()).then(task)
+
+    const queue = result.then(
+      () => undefined,
+      () => undefined,
+    )
+    this.queues.set(key, queue)
+    void queue.then(() => {
+      if (this.queues.get(key) === queue) {
+        this.queues.delete(key)
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * Handle a parsed message
+   */
+  private async process(message: MediaStreamMessage): Promise<MediaStreamEvent[]> {
+    switch (message.event) {
+      case 'start':
+        this.startCall(message)
+        return []
+
+      case 'media':
+        return this.processMedia(message)
+
+      case 'stop':
+        return this.stopCall(streamSidOf(message))
+
+      default:
+        // connected, mark, dtmf, ...
+        return []
+    }
+  }
+
+  /**
+   * Register a new stream from its `start` message
+   */
+  private startCall(message: MediaStreamMessage): void {
+    const streamSid = streamSidOf(message)
+    if (!streamSid) {
+      throw new DecodeError('Media stream start message has no stream identifier')
+    }
+
+    const start = message.start ?? {}
+    const format = start.mediaFormat
+      ? { encoding: start.mediaFormat.encoding, sampleRate: start.mediaFormat.sampleRate }
+      : start.media_format
+        ? { encoding: start.media_format.encoding, sampleRate: start.media_format.sample_rate }
+        : undefined
+
+    const encoding = format ? MEDIA_ENCODINGS[format.encoding] : 'mulaw'
+    if (!encoding) {
+      throw new DecodeError(`Unsupported media stream encoding: ${format?.encoding}`)
+    }
+
+    const call: MediaStreamCall = {
+      streamSid,
+      callSid: start.callSid ?? start.call_control_id,
+      encoding,
+      sampleRate: format?.sampleRate ?? DEFAULT_MEDIA_SAMPLE_RATE,
+      customParameters: start.customParameters ?? {},
+    }
+
+    this.calls.set(streamSid, { call, tracks: new Map() })
+    getLogger(this.options.logger).info('Media stream started', {
+      streamSid,
+      encoding: call.encoding,
+      sampleRate: call.sampleRate,
+    })
+    this.emit('start', call)
+  }
+
+  /**
+   * Run the audio of a `media` message through the VAD stream of its track
+   */
+  private async processMedia(message: MediaStreamMessage): Promise<MediaStreamEvent[]> {
+    const streamSid = streamSidOf(message)
+    const active = streamSid ? this.calls.get(streamSid) : undefined
+    if (!active || !message.media) {
+      getLogger(this.options.logger).warn('Ignoring media for unknown stream', { streamSid })
+      return []
+    }
+
+    const track = message.media.track ?? DEFAULT_TRACK
+    if (this.options.tracks && !this.options.tracks.includes(track)) {
+      return []
+    }
+
+    let stream = active.tracks.get(track)
+    if (!stream) {
+      stream = this.vad.createStream({
+        sampleRate: active.call.sampleRate,
+        frameEvents: this.options.frameEvents,
+        ...(this.options.segmentAudio && { segmentAudio: this.options.segmentAudio }),
+        ...(this.options.resampleQuality && { resampleQuality: this.options.resampleQuality }),
+      })
+      active.tracks.set(track, stream)
+    }
+
+    const audio = decodeG711(Buffer.from(message.media.payload, 'base64'), active.call.encoding)
+    return this.emitEvents(active.call, track, await stream.push(audio))
+  }
+
+  /**
+   * Flush the VAD streams of a stream's tracks and forget the stream
+   */
+  private stopCall(streamSid: string | undefined): MediaStreamEvent[] {
+    const active = streamSid ? this.calls.get(streamSid) : undefined
+    if (!active) {
+      return []
+    }
+
+    const events: MediaStreamEvent[] = []
+    for (const [track, stream] of active.tracks) {
+      events.push(...this.emitEvents(active.call, track, stream.flush()))
+    }
+
+    this.calls.delete(active.call.streamSid)
+    getLogger(this.options.logger).info('Media stream stopped', { streamSid: active.call.streamSid })
+    this.emit('stop', active.call)
+    return events
+  }
+
+  /**
+   * Label VAD events with their stream and track and emit them
+   */
+  private emitEvents(call: MediaStreamCall, track: string, events: VADEvent[]): MediaStreamEvent[] {
+    return events.map((event) => {
+      const streamEvent: MediaStreamEvent = { ...event, streamSid: call.streamSid, callSid: call.callSid, track }
+      this.emit('event', streamEvent)
+      return streamEvent
+    })
+  }
+}
+
+/**
+ * Parse a media stream message received from a socket
+ */
+function parseMessage(data: string | Buffer | ArrayBuffer | Buffer[] | MediaStreamMessage): MediaStreamMessage {
+  let text: string
+  if (typeof data === 'string') {
+    text = data
+  } else if (Buffer.isBuffer(data)) {
+    text = data.toString('utf8')
+  } else if (data instanceof ArrayBuffer) {
+    text = Buffer.from(data).toString('utf8')
+  } else if (Array.isArray(data)) {
+    text = Buffer.concat(data).toString('utf8')
+  } else {
+    return data
+  }
+
+  let message: unknown
+  try {
+    message = JSON.parse(text)
+  } catch (error) {
+    throw new DecodeError(`Invalid media stream message: ${(error as Error).message}`, { cause: error })
+  }
+  if (typeof message !== 'object' || message === null) {
+    throw new DecodeError('Media stream message is not a JSON object')
+  }
+  return message as MediaStreamMessage
+}
+
+/**
+ * Get the stream identifier of a message
+ */
+function streamSidOf(message: MediaStreamMessage): string | undefined {
+  return message.streamSid ?? message.stream_id ?? message.start?.streamSid
+}
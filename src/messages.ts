@@ -1,7 +1,18 @@
+/**
+ * Events produced while processing audio frames
+ */
 export enum Message {
-  AudioFrame = "AUDIO_FRAME",
-  SpeechStart = "SPEECH_START",
-  VADMisfire = "VAD_MISFIRE",
-  SpeechEnd = "SPEECH_END",
-  SpeechStop = "SPEECH_STOP",
+  /** A frame was run through the model. Carries the frame's speech probability */
+  AudioFrame = 'AUDIO_FRAME',
+  /** A frame went over `positiveSpeechThreshold` while not speaking: a possible speech segment starts */
+  SpeechStart = 'SPEECH_START',
+  /** A possible speech segment ended with fewer than `minSpeechFrames` speech frames and was discarded */
+  VADMisfire = 'VAD_MISFIRE',
+  /** A speech segment ended after `redemptionFrames` frames of silence. Carries the segment */
+  SpeechEnd = 'SPEECH_END',
+  /**
+   * A frame fell under `negativeSpeechThreshold` while speaking: the redemption period starts. Followed either by
+   * `SpeechEnd`/`VADMisfire` or, if speech resumes in time, by further frames of the same segment
+   */
+  SpeechStop = 'SPEECH_STOP',
 }
@@ -0,0 +1,180 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { fileURLToPath } from 'url'
+import { Silero, type ModelFetcher, type ModelVersion, type OrtOptions } from './models'
+import { ModelLoadError } from './errors'
+import { getLogger, type Logger } from './logger'
+
+/**
+ * Where to load the ONNX model from. `modelBuffer` takes precedence over `modelFetcher`, which takes precedence over
+ * `modelPath`
+ */
+export interface ModelSource {
+  /** Path to the ONNX model file */
+  modelPath?: string
+  /** Contents of the ONNX model file */
+  modelBuffer?: ArrayBuffer | Uint8Array
+  /** Function returning the contents of the ONNX model file, e.g. downloaded from a URL */
+  modelFetcher?: ModelFetcher
+}
+
+/**
+ * Options for loading a model
+ */
+export interface LoadModelOptions extends ModelSource, OrtOptions {
+  /** Silero model version, or 'auto' to detect it */
+  modelVersion?: ModelVersion | 'auto'
+  /** Whether to share the loaded model with other VAD instances loading the same model (defaults to true) */
+  cacheModel?: boolean
+  /** Logger for loading progress (defaults to the package logger). Cached models keep the logger they were loaded with */
+  logger?: Logger
+}
+
+/**
+ * Directory of the installed package: both the bundle (`dist/`) and the sources (`src/`) are one level below it
+ */
+const packageDirectory = (): string => {
+  if (typeof __dirname !== 'undefined') {
+    return path.resolve(__dirname, '..')
+  }
+  return path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+}
+
+/** Path of the model bundled with the package */
+export const DEFAULT_MODEL_PATH = path.join(packageDirectory(), 'silero_vad.onnx')
+
+/** Loaded models by file path, for each session configuration */
+const modelsByPath = new Map<string, Map<string, Promise<Silero>>>()
+
+/** Loaded models by buffer or fetcher, for each session configuration */
+let modelsBySource = new WeakMap<object, Map<string, Promise<Silero>>>()
+
+/** Identifiers of `ortConfig` hooks, so models configured by different hooks are cached separately */
+const hookIds = new WeakMap<object, number>()
+let nextHookId = 1
+
+/**
+ * Load a Silero model from a file, buffer or fetcher
+ *
+ * Unless `cacheModel` is false, the loaded model is kept for the lifetime of the process and shared by every caller
+ * loading the same file (or buffer or fetcher) with the same version and ONNX Runtime options, so the model is only
+ * read and parsed once.
+ * @param options Model source, version and ONNX Runtime options
+ * @returns Initialized Silero model
+ */
+export function loadModel(options: LoadModelOptions): Promise<Silero> {
+  if (options.cacheModel === false) {
+    return createModel(options)
+  }
+
+  const cache = cacheFor(options)
+  const key = configurationKey(options)
+
+  let model = cache.get(key)
+  if (!model) {
+    model = createModel(options)
+    cache.set(key, model)
+
+    // Don't keep failed loads around, so the next attempt tries again
+    model.catch(() => {
+      if (cache.get(key) === model) {
+        cache.delete(key)
+      }
+    })
+  }
+
+  return model
+}
+
+/**
+ * Forget all cached models. VAD instances already created keep using their model
+ */
+export function clearModelCache(): void {
+  modelsByPath.clear()
+  modelsBySource = new WeakMap()
+}
+
+/**
+ * Read the model data and create the model
+ */
+async function createModel(options: LoadModelOptions): Promise<Silero> {
+  const { ortConfig, sessionOptions } = options
+  const buffer = await readModel(options)
+
+  try {
+    return await Silero.create(buffer, options.modelVersion, { ortConfig, sessionOptions }, options.logger)
+  } catch (error) {
+    // Point to the file the model came from
+    if (error instanceof ModelLoadError && !options.modelBuffer && !options.modelFetcher) {
+      error.path ??= options.modelPath ?? DEFAULT_MODEL_PATH
+    }
+    throw error
+  }
+}
+
+/**
+ * Get the contents of the model from its source
+ */
+async function readModel({
+  modelBuffer,
+  modelFetcher,
+  modelPath,
+  logger,
+}: LoadModelOptions): Promise<ArrayBuffer | Uint8Array> {
+  if (modelBuffer) {
+    return modelBuffer
+  }
+
+  if (modelFetcher) {
+    getLogger(logger).info('Fetching model')
+    try {
+      return await modelFetcher()
+    } catch (err) {
+      throw new ModelLoadError(`Failed to fetch model: ${(err as Error)?.message ?? err}`, { cause: err })
+    }
+  }
+
+  const filePath = modelPath ?? DEFAULT_MODEL_PATH
+  getLogger(logger).info('Loading model', { path: filePath })
+  try {
+    return await fs.readFile(filePath)
+  } catch (err) {
+    throw new ModelLoadError(`Model file not found: ${filePath}`, { path: filePath, cause: err })
+  }
+}
+
+/**
+ * Get the cache of models loaded from the same source
+ */
+function cacheFor({ modelBuffer, modelFetcher, modelPath }: ModelSource): Map<string, Promise<Silero>> {
+  const source = modelBuffer ?? modelFetcher
+  if (source) {
+    let cache = modelsBySource.get(source)
+    if (!cache) {
+      cache = new Map()
+      modelsBySource.set(source, cache)
+    }
+    return cache
+  }
+
+  const filePath = path.resolve(modelPath ?? DEFAULT_MODEL_PATH)
+  let cache = modelsByPath.get(filePath)
+  if (!cache) {
+    cache = new Map()
+    modelsByPath.set(filePath, cache)
+  }
+  return cache
+}
+
+/**
+ * Describe the version and ONNX Runtime configuration a model is loaded with
+ */
+function configurationKey({ modelVersion = 'auto', sessionOptions = {}, ortConfig }: LoadModelOptions): string {
+  let hookId = 0
+  if (ortConfig) {
+    hookId = hookIds.get(ortConfig) ?? nextHookId++
+    hookIds.set(ortConfig, hookId)
+  }
+
+  return JSON.stringify([modelVersion, sessionOptions, hookId])
+}
@@ -1,9 +1,59 @@
+import { InferenceError, ModelLoadError } from './errors'
+import { getLogger, type Logger } from './logger'
+
 export type ONNXRuntimeAPI = any
-export type ModelFetcher = () => Promise<ArrayBuffer>
+export type ModelFetcher = () => Promise<ArrayBuffer | Uint8Array>
+
+/**
+ * ONNX Runtime inference session options, passed to `InferenceSession.create`
+ */
+export interface OrtSessionOptions {
+  /** Number of threads used to parallelize the execution within nodes (0 lets ORT use one per core) */
+  intraOpNumThreads?: number
+  /** Number of threads used to parallelize the execution of the graph (across nodes) */
+  interOpNumThreads?: number
+  /** Graph optimization level */
+  graphOptimizationLevel?: 'disabled' | 'basic' | 'extended' | 'all'
+  /** Execution providers to use, in order of preference (e.g. 'cpu', 'cuda', 'dml', 'coreml') */
+  executionProviders?: (string | { name: string; [option: string]: unknown })[]
+  /** Whether to enable the CPU memory arena */
+  enableCpuMemArena?: boolean
+  /** Log severity level: 0 verbose, 1 info, 2 warning, 3 error, 4 fatal */
+  logSeverityLevel?: 0 | 1 | 2 | 3 | 4
+}
+
+/**
+ * Options controlling how ONNX Runtime loads and runs the model
+ */
 export type OrtOptions = {
-  ortConfig?: (ort: ONNXRuntimeAPI) => any
+  /**
+   * Hook called with the `onnxruntime-node` module before the session is created, e.g. to set `ort.env` flags.
+   * If it returns a module, that module is used instead.
+   */
+  ortConfig?: (ort: ONNXRuntimeAPI) => ONNXRuntimeAPI | void
+  /** Options for the inference session (threads, execution providers, optimizations, logging) */
+  sessionOptions?: OrtSessionOptions
 }
 
+/**
+ * Supported Silero VAD model versions
+ *
+ * - `v4` uses separate `h`/`c` LSTM state tensors of shape [2, 1, 64]
+ * - `v5` uses a single `state` tensor of shape [2, 1, 128] and expects context samples prepended to each frame
+ */
+export type ModelVersion = 'v4' | 'v5'
+
+/**
+ * Frame sizes (at 16kHz) each model version was trained on. v5 only accepts the first (and only) value.
+ */
+export const MODEL_FRAME_SAMPLES: Record<ModelVersion, number[]> = {
+  v4: [512, 1024, 1536],
+  v5: [512],
+}
+
+/** Number of samples from the previous frame that the v5 model expects prepended to each frame (16kHz) */
+const V5_CONTEXT_SAMPLES = 64
+
 export interface SpeechProbabilities {
   notSpeech: number
   isSpeech: number
@@ -17,59 +67,169 @@ export interface Model {
   process: (arr: Float32Array) => Promise<SpeechProbabilities>
 }
 
+/**
+ * Determine the Silero model version from the input and output names of an ONNX session
+ * @param inputNames Input names of the loaded session
+ * @param outputNames Output names of the loaded session
+ * @returns Detected model version
+ */
+export function detectModelVersion(inputNames: readonly string[], outputNames: readonly string[]): ModelVersion {
+  if (inputNames.includes('state') && outputNames.includes('stateN')) {
+    return 'v5'
+  }
+
+  if (
+    inputNames.includes('h') &&
+    inputNames.includes('c') &&
+    outputNames.includes('hn') &&
+    outputNames.includes('cn')
+  ) {
+    return 'v4'
+  }
+
+  throw new ModelLoadError(
+    `Unrecognized Silero VAD model. Inputs: [${inputNames.join(', ')}], outputs: [${outputNames.join(', ')}]`,
+  )
+}
+
+/**
+ * Names and size of the recurrent state tensors of each model version
+ */
+const STATE_LAYOUT: Record<ModelVersion, { inputs: string[]; outputs: string[]; size: number }> = {
+  v4: { inputs: ['h', 'c'], outputs: ['hn', 'cn'], size: 64 },
+  v5: { inputs: ['state'], outputs: ['stateN'], size: 128 },
+}
+
+/**
+ * Recurrent state of one audio stream run through a Silero model
+ *
+ * The loaded model (and its weights) can be shared by any number of streams, each keeping its own state.
+ */
+export class SileroState {
+  /** State tensors in the model's input order (`h`, `c` for v4, `state` for v5), each of shape [2, 1, size] */
+  tensors: Float32Array[] = []
+
+  /** Tail of the previous frame, prepended to the next frame by the v5 model */
+  context: Float32Array = new Float32Array(V5_CONTEXT_SAMPLES)
+
+  /**
+   * Creates a new zeroed state
+   * @param version Version of the model the state belongs to
+   */
+  constructor(readonly version: ModelVersion) {
+    this.reset()
+  }
+
+  /**
+   * Reset the state to zeroes, as at the start of a stream
+   */
+  reset(): void {
+    const { inputs, size } = STATE_LAYOUT[this.version]
+    this.tensors = inputs.map(() => new Float32Array(2 * size))
+    this.context = new Float32Array(V5_CONTEXT_SAMPLES)
+  }
+}
+
 /**
  * Silero Voice Activity Detection (VAD) model implementation
  * Handles loading and running the ONNX model for speech detection
  */
 export class Silero implements Model {
   private _session: any
-  private _h: any
-  private _c: any
   private _sr: any
   private ort: any
-  private modelBuffer: ArrayBuffer
+  private modelBuffer: ArrayBuffer | Uint8Array
+  private ortOptions: OrtOptions
+  private logger: Logger
+
+  /** State used by `process` and `reset_state` */
+  private state: SileroState
+
+  /** Version of the loaded model, detected from the session unless given explicitly */
+  version: ModelVersion = 'v4'
 
   /**
    * Creates a new instance of the Silero VAD model
    * @param modelBuffer ArrayBuffer containing the ONNX model data
+   * @param ortOptions ONNX Runtime module hook and session options
+   * @param logger Logger for initialization progress and inference errors (defaults to the package logger)
    */
-  constructor(modelBuffer: ArrayBuffer) {
+  constructor(modelBuffer: ArrayBuffer | Uint8Array, ortOptions: OrtOptions = {}, logger?: Logger) {
     // Import ONNX runtime dynamically to avoid issues esbuild .node imports - in a Node.js environment this is safe
-    this.ort = require('onnxruntime-node')
+    try {
+      this.ort = require('onnxruntime-node')
+    } catch (error) {
+      throw new ModelLoadError('Failed to load onnxruntime-node', { cause: error })
+    }
     this.modelBuffer = modelBuffer
+    this.ortOptions = ortOptions
+    this.logger = getLogger(logger)
+    this.state = new SileroState(this.version)
   }
 
   /**
    * Factory method to create and initialize a new Silero VAD model
    * @param modelBuffer ArrayBuffer containing the ONNX model data
+   * @param modelVersion Model version to use, or 'auto' to detect it from the model's inputs and outputs
+   * @param ortOptions ONNX Runtime module hook and session options
+   * @param logger Logger for initialization progress and inference errors (defaults to the package logger)
    * @returns Initialized Silero model instance
    */
-  static async create(modelBuffer: ArrayBuffer): Promise<Silero> {
-    const model = new Silero(modelBuffer)
-    await model.init()
+  static async create(
+    modelBuffer: ArrayBuffer | Uint8Array,
+    modelVersion: ModelVersion | 'auto' = 'auto',
+    ortOptions: OrtOptions = {},
+    logger?: Logger,
+  ): Promise<Silero> {
+    const model = new Silero(modelBuffer, ortOptions, logger)
+    await model.init(modelVersion)
     return model
   }
 
   /**
    * Initialize the ONNX runtime session with the model
    */
-  private async init(): Promise<void> {
-    console.debug('Initializing Silero VAD model')
-    this._session = await this.ort.InferenceSession.create(this.modelBuffer)
+  private async init(modelVersion: ModelVersion | 'auto'): Promise<void> {
+    this.logger.debug('Initializing Silero VAD model')
+
+    // Let the caller configure (or replace) the runtime before creating the session
+    const { ortConfig, sessionOptions = {} } = this.ortOptions
+    this.ort = ortConfig?.(this.ort) ?? this.ort
+
+    try {
+      this._session = await this.ort.InferenceSession.create(this.modelBuffer, definedOptions(sessionOptions))
+    } catch (error) {
+      throw new ModelLoadError(`Failed to create ONNX Runtime session: ${(error as Error)?.message ?? error}`, {
+        cause: error,
+      })
+    }
+
+    const detectedVersion = detectModelVersion(this._session.inputNames, this._session.outputNames)
+    if (modelVersion !== 'auto' && modelVersion !== detectedVersion) {
+      throw new ModelLoadError(
+        `Model version mismatch: requested ${modelVersion}, but the model looks like ${detectedVersion}`,
+      )
+    }
+    this.version = detectedVersion
 
     // Set constant sample rate tensor (16kHz)
     this._sr = new this.ort.Tensor('int64', [16000n])
-    this.reset_state()
-    console.debug('Silero VAD model initialized')
+    this.state = this.createState()
+    this.logger.debug('Silero VAD model initialized', { version: this.version })
+  }
+
+  /**
+   * Create a zeroed recurrent state for a new stream
+   */
+  createState(): SileroState {
+    return new SileroState(this.version)
   }
 
   /**
-   * Reset the internal LSTM state of the model
+   * Reset the internal recurrent state of the model
    */
   reset_state = (): void => {
-    const zeroes = Array(2 * 64).fill(0)
-    this._h = new this.ort.Tensor('float32', zeroes, [2, 1, 64])
-    this._c = new this.ort.Tensor('float32', zeroes, [2, 1, 64])
+    this.state.reset()
   }
 
   /**
@@ -78,33 +238,123 @@ export class Silero implements Model {
    * @returns Speech probability scores
    */
   process = async (audioFrame: Float32Array): Promise<SpeechProbabilities> => {
-    // Create tensor from audio frame
-    const t = new this.ort.Tensor('float32', audioFrame, [1, audioFrame.length])
-
-    // Prepare inputs for the model
-    const inputs = {
-      input: t,
-      h: this._h,
-      c: this._c,
-      sr: this._sr,
-    }
+    const [probs] = await this.processBatch([audioFrame], [this.state])
+    return probs as SpeechProbabilities
+  }
 
+  /**
+   * Process one frame from each of several streams in a single inference, batched along the batch dimension
+   *
+   * All frames must have the same length. Each stream's state is updated with the model's output state.
+   * @param audioFrames One audio frame per stream
+   * @param states Recurrent state of each stream, in the same order as the frames
+   * @returns Speech probability scores of each frame
+   */
+  async processBatch(audioFrames: Float32Array[], states: SileroState[]): Promise<SpeechProbabilities[]> {
     try {
+      const batchSize = audioFrames.length
+      const frameLength = audioFrames[0]?.length ?? 0
+
+      if (states.length !== batchSize) {
+        throw new InferenceError(`Got ${batchSize} frames but ${states.length} states`)
+      }
+      if (audioFrames.some((frame) => frame.length !== frameLength)) {
+        throw new InferenceError('All frames of a batch must have the same length')
+      }
+      if (this.version === 'v5' && frameLength !== MODEL_FRAME_SAMPLES.v5[0]) {
+        throw new InferenceError(
+          `Silero v5 expects frames of exactly ${MODEL_FRAME_SAMPLES.v5[0]} samples, got ${frameLength}`,
+        )
+      }
+
+      // v5 expects the tail of the previous frame prepended to each frame
+      const contextLength = this.version === 'v5' ? V5_CONTEXT_SAMPLES : 0
+      const inputLength = contextLength + frameLength
+      const input = new Float32Array(batchSize * inputLength)
+      audioFrames.forEach((frame, index) => {
+        const state = states[index] as SileroState
+        if (contextLength > 0) {
+          input.set(state.context, index * inputLength)
+        }
+        input.set(frame, index * inputLength + contextLength)
+      })
+
+      const layout = STATE_LAYOUT[this.version]
+      const inputs: Record<string, any> = {
+        input: new this.ort.Tensor('float32', input, [batchSize, inputLength]),
+        sr: this._sr,
+      }
+      layout.inputs.forEach((name, tensor) => {
+        inputs[name] = new this.ort.Tensor('float32', packStates(states, tensor, layout.size), [
+          2,
+          batchSize,
+          layout.size,
+        ])
+      })
+
       // Run the model
       const out = await this._session.run(inputs)
 
-      // Update internal state
-      this._h = out.hn
-      this._c = out.cn
+      // Update the state of each stream
+      layout.outputs.forEach((name, tensor) => {
+        unpackStates(out[name].data as Float32Array, states, tensor, layout.size)
+      })
+      if (contextLength > 0) {
+        states.forEach((state, index) => {
+          const end = (index + 1) * inputLength
+          state.context = input.slice(end - contextLength, end)
+        })
+      }
 
-      // Get speech probability from output
-      const [isSpeech] = out.output.data
-      const notSpeech = 1 - isSpeech
-
-      return { notSpeech, isSpeech }
-    } catch (error: any) {
-      console.error('Error running Silero VAD model:', error)
-      throw error
+      // Get speech probabilities from the output, of shape [batch, 1]
+      const output = out.output.data as Float32Array
+      return Array.from({ length: batchSize }, (_, index) => {
+        const isSpeech = output[index] as number
+        return { notSpeech: 1 - isSpeech, isSpeech }
+      })
+    } catch (error) {
+      this.logger.error('Error running Silero VAD model', { error })
+      throw error instanceof InferenceError
+        ? error
+        : new InferenceError(
+            `Error running Silero VAD model: ${error instanceof Error ? error.message : String(error)}`,
+            error,
+          )
     }
   }
 }
+
+/**
+ * Drop unset session options, so ONNX Runtime applies its own defaults for them
+ */
+function definedOptions(options: OrtSessionOptions): OrtSessionOptions {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined))
+}
+
+/**
+ * Pack one state tensor of several streams into a [2, batch, size] array
+ */
+function packStates(states: SileroState[], tensor: number, size: number): Float32Array {
+  const packed = new Float32Array(2 * states.length * size)
+  states.forEach((state, index) => {
+    const data = state.tensors[tensor] as Float32Array
+    for (let layer = 0; layer < 2; layer++) {
+      packed.set(data.subarray(layer * size, (layer + 1) * size), (layer * states.length + index) * size)
+    }
+  })
+  return packed
+}
+
+/**
+ * Copy one [2, batch, size] state tensor back into the streams' states
+ */
+function unpackStates(packed: Float32Array, states: SileroState[], tensor: number, size: number): void {
+  states.forEach((state, index) => {
+    const data = new Float32Array(2 * size)
+    for (let layer = 0; layer < 2; layer++) {
+      const offset = (layer * states.length + index) * size
+      data.set(packed.subarray(offset, offset + size), layer * size)
+    }
+    state.tensors[tensor] = data
+  })
+}
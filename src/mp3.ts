@@ -1,44 +1,61 @@
 import * as fs from 'fs/promises'
+import { createWriteStream } from 'fs'
 import { spawn } from 'child_process'
 import * as path from 'path'
-import { VAD, type SpeechSegment, type VADOptions, TARGET_SAMPLE_RATE } from './vad'
-import { logger } from './logger'
+import { Writable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { type SpeechSegment } from './vad'
+import { getLogger, logger } from './logger'
+import {
+  DecodeError,
+  DecoderNotFoundError,
+  EncodeError,
+  InvalidOptionsError,
+  isMissingBinary,
+  type OptionIssue,
+} from './errors'
+import { decodeWithProcess, describeSource, type AudioSource, type DecodedAudioStream } from './audio-stream'
+import { downmix, joinSegments, processAudioData, type ProcessAudioOptions, type ProcessAudioResult } from './audio'
 
 /**
  * Options for VAD processing of MP3s (no file saving)
  */
-export interface ProcessMP3Options extends Partial<VADOptions> {
-  /** Optional pre-initialized VAD instance */
-  vadInstance?: VAD
-}
+export type ProcessMP3Options = ProcessAudioOptions
 
 /**
  * Result of processing an MP3 file for VAD (no file saving)
  */
-export interface ProcessMP3Result {
-  /** Detected speech segments (only start and end times) */
-  segments: SpeechSegment[]
-  /** Total VAD processing time in milliseconds */
-  processingTime: number
-  /** Original audio data */
-  audioData: Float32Array
-  /** Original sample rate */
-  sampleRate: number
-}
+export type ProcessMP3Result = ProcessAudioResult
+
+/** Message of the error thrown when lame isn't installed */
+const LAME_MISSING =
+  'Error: lame is not installed or not in PATH. Please install lame for MP3 encoding/decoding (e.g., brew install lame on macOS)'
 
 /**
- * Decode an MP3 file to PCM audio using lame
+ * Decode an MP3 file to mono PCM audio using lame
+ *
+ * Stereo files are averaged to a single channel.
  * @param mp3Path Path to the MP3 file
  * @returns Promise containing [audioData, sampleRate]
  */
 export async function decodeMP3(mp3Path: string): Promise<[Float32Array, number]> {
-  logger.log(`Decoding MP3 file: ${mp3Path}`)
+  const [channelData, sampleRate] = await decodeMP3Channels(mp3Path)
+  return [downmix(channelData, 'mean', sampleRate), sampleRate]
+}
+
+/**
+ * Decode an MP3 file to per-channel PCM audio using lame
+ * @param mp3Path Path to the MP3 file
+ * @returns Promise containing [channelData, sampleRate]
+ */
+export async function decodeMP3Channels(mp3Path: string): Promise<[Float32Array[], number]> {
+  logger.debug('Decoding MP3 file', { path: mp3Path })
 
   // First check if the file exists
   try {
     await fs.access(mp3Path)
   } catch (err) {
-    throw new Error(`MP3 file not found: ${mp3Path}`)
+    throw new DecodeError(`MP3 file not found: ${mp3Path}`, { path: mp3Path, cause: err })
   }
 
   return new Promise((resolve, reject) => {
@@ -56,6 +73,7 @@ export async function decodeMP3(mp3Path: string): Promise<[Float32Array, number]
 
     const chunks: Buffer[] = []
     let sampleRate = 44100 // Default, will be detected later
+    let channels = 1 // Default, will be detected later
     let stderrOutput = ''
 
     lame.stdout.on('data', (chunk) => {
@@ -72,100 +90,399 @@ export async function decodeMP3(mp3Path: string): Promise<[Float32Array, number]
         const kHzValue = parseFloat(match[1])
         sampleRate = Math.round(kHzValue * 1000) // Convert kHz to Hz
       }
+
+      // Try to extract the channel count, e.g. "(44.1 kHz, 2 channels, MPEG-1 Layer III)"
+      const channelMatch = output.match(/(\d+)\s+channels?/)
+      if (channelMatch && channelMatch[1]) {
+        channels = parseInt(channelMatch[1], 10)
+      }
     })
 
     lame.on('close', (code) => {
       if (code !== 0) {
-        return reject(new Error(`lame exited with code ${code}. stderr: ${stderrOutput}`))
+        return reject(
+          new DecodeError(`lame exited with code ${code}. stderr: ${stderrOutput}`, {
+            path: mp3Path,
+            exitCode: code,
+            stderr: stderrOutput,
+          }),
+        )
       }
 
       // Check if we have any data
       if (chunks.length === 0) {
-        return reject(new Error('No audio data received from lame'))
+        return reject(
+          new DecodeError('No audio data received from lame', { path: mp3Path, exitCode: code, stderr: stderrOutput }),
+        )
       }
 
       // Combine all chunks into a single buffer
       const buffer = Buffer.concat(chunks)
 
-      // Convert 16-bit PCM to Float32Array
-      const floatArray = new Float32Array(buffer.length / 2)
-      for (let i = 0; i < floatArray.length; i++) {
-        // Read 16-bit value and normalize to [-1.0, 1.0]
-        floatArray[i] = buffer.readInt16LE(i * 2) / 32768.0
+      // Convert interleaved 16-bit PCM to one Float32Array per channel
+      const frameCount = Math.floor(buffer.length / (2 * channels))
+      const channelData = Array.from({ length: channels }, () => new Float32Array(frameCount))
+      for (let i = 0; i < frameCount; i++) {
+        for (let channel = 0; channel < channels; channel++) {
+          // Read 16-bit value and normalize to [-1.0, 1.0]
+          ;(channelData[channel] as Float32Array)[i] = buffer.readInt16LE((i * channels + channel) * 2) / 32768.0
+        }
       }
 
-      logger.log(`Decoded ${mp3Path}: ${floatArray.length} samples, ${sampleRate}Hz`)
-      resolve([floatArray, sampleRate])
+      logger.debug('Decoded MP3 file', { path: mp3Path, samples: frameCount, sampleRate, channels })
+      resolve([channelData, sampleRate])
     })
 
     lame.on('error', (err) => {
-      reject(new Error(`Failed to spawn lame: ${err.message}`))
+      reject(
+        isMissingBinary(err)
+          ? new DecoderNotFoundError(LAME_MISSING, { binary: 'lame', path: mp3Path, cause: err })
+          : new DecodeError(`Failed to spawn lame: ${err.message}`, { path: mp3Path, cause: err }),
+      )
     })
   })
 }
 
 /**
- * Save audio segment to an MP3 file using lame
- * @param audio Audio data as Float32Array
+ * Decode an MP3 with lame chunk by chunk, keeping each channel
+ *
+ * Memory use doesn't depend on the length of the audio. Buffers and streams are piped to lame's stdin.
+ * @param source Path to the MP3 file, its contents, or a stream of them
+ * @returns Sample rate and channel count of the audio, and its decoded chunks
+ */
+export async function decodeMP3Stream(source: AudioSource): Promise<DecodedAudioStream> {
+  logger.debug('Decoding MP3 stream', { path: describeSource(source) })
+
+  return decodeWithProcess(source, {
+    binary: 'lame',
+    args: (input) => [
+      '--decode', // Decode mode, writing a WAV carrying the channel count and sample rate
+      input ?? '-', // Input file, or stdin
+      '-', // Output to stdout
+    ],
+    missingMessage: LAME_MISSING,
+  })
+}
+
+/**
+ * ID3 tags written to encoded MP3s
+ */
+export interface ID3Tags {
+  title?: string
+  artist?: string
+  album?: string
+  year?: string | number
+  comment?: string
+  /** Track number, optionally with the total, e.g. `'3/12'` */
+  track?: string | number
+  /** Genre name or ID3v1 genre number */
+  genre?: string | number
+}
+
+/**
+ * Options for encoding MP3s with lame
+ */
+export interface MP3EncodeOptions {
+  /** Constant bitrate in kbps, e.g. 128 (defaults to lame's 128 kbps when `vbrQuality` isn't set either) */
+  bitrate?: number
+  /** Encode with a variable bitrate of this quality, from 0 (best) to 9 (smallest). Can't be combined with `bitrate` */
+  vbrQuality?: number
+  /** Algorithm quality, from 0 (best, slowest) to 9 (worst, fastest) (defaults to 4) */
+  quality?: number
+  /** Sample rate of the MP3 in Hz, resampled by lame (defaults to the input sample rate) */
+  outputSampleRate?: number
+  /**
+   * Channel mode of the MP3 (defaults to 'mono' for one channel and 'stereo' for two). Stereo input is averaged for
+   * 'mono', and mono input is copied to both channels for the stereo modes
+   */
+  mode?: 'mono' | 'stereo' | 'joint-stereo'
+  /** ID3 tags to write */
+  tags?: ID3Tags
+}
+
+/** Bitrates (kbps) lame accepts for constant bitrate encoding */
+const MP3_BITRATES = [8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160, 192, 224, 256, 320]
+
+/** Sample rates (Hz) MP3s can be written at */
+const MP3_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000]
+
+/** lame's `-m` argument for each channel mode */
+const MP3_MODES = { mono: 'm', stereo: 's', 'joint-stereo': 'j' } as const
+
+/** lame's argument for each ID3 tag */
+const ID3_TAG_ARGUMENTS: Record<keyof ID3Tags, string> = {
+  title: '--tt',
+  artist: '--ta',
+  album: '--tl',
+  year: '--ty',
+  comment: '--tc',
+  track: '--tn',
+  genre: '--tg',
+}
+
+/**
+ * Encode audio as an MP3 using lame, without temporary files
+ * @param audio Mono audio data as Float32Array, or one Float32Array per channel (at most two)
+ * @param sampleRate Sample rate in Hz
+ * @param options Bitrate, quality, sample rate, channel mode and tags of the MP3
+ * @returns Contents of the MP3 file
+ */
+export async function encodeMP3(
+  audio: Float32Array | Float32Array[],
+  sampleRate: number,
+  options: MP3EncodeOptions = {},
+): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  const collector = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      chunks.push(chunk)
+      callback()
+    },
+  })
+
+  await runLame(toEncoderInput(audio, sampleRate, options), sampleRate, options, collector)
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Encode audio as an MP3 using lame and write it to a stream, which is ended afterwards
+ * @param audio Mono audio data as Float32Array, or one Float32Array per channel (at most two)
+ * @param sampleRate Sample rate in Hz
+ * @param output Stream to write the MP3 to, e.g. an HTTP response
+ * @param options Bitrate, quality, sample rate, channel mode and tags of the MP3
+ * @returns Promise that resolves once the whole MP3 is written
+ */
+export async function writeMP3(
+  audio: Float32Array | Float32Array[],
+  sampleRate: number,
+  output: Writable,
+  options: MP3EncodeOptions = {},
+): Promise<void> {
+  await runLame(toEncoderInput(audio, sampleRate, options), sampleRate, options, output)
+}
+
+/**
+ * Save audio to an MP3 file using lame, without temporary files
+ * @param audio Mono audio data as Float32Array, or one Float32Array per channel (at most two)
  * @param sampleRate Sample rate in Hz
  * @param outputPath Full path for the output MP3 file
+ * @param options Bitrate, quality, sample rate, channel mode and tags of the MP3
  * @returns Path to the saved MP3 file
  */
-export async function saveMP3File(audio: Float32Array, sampleRate: number, outputPath: string): Promise<string> {
-  // Ensure output directory exists
-  const outputDir = path.dirname(outputPath)
-  await fs.mkdir(outputDir, { recursive: true })
-
-  // Create temporary PCM file path based on the final filename to avoid collisions
-  const tempPcmPath = path.join(outputDir, `temp_${path.parse(outputPath).name}.pcm`)
-
-  // Convert Float32Array to 16-bit PCM buffer
-  const buffer = Buffer.alloc(audio.length * 2)
-  for (let i = 0; i < audio.length; i++) {
-    // Clamp to [-1.0, 1.0] and convert to 16-bit
-    const sample = Math.max(-1.0, Math.min(1.0, audio[i]!))
-    buffer.writeInt16LE(Math.floor(sample * 32767), i * 2)
+export async function saveMP3File(
+  audio: Float32Array | Float32Array[],
+  sampleRate: number,
+  outputPath: string,
+  options: MP3EncodeOptions = {},
+): Promise<string> {
+  // Check the input before creating anything on disk
+  const input = toEncoderInput(audio, sampleRate, options, outputPath)
+
+  try {
+    // Ensure output directory exists
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+  } catch (err) {
+    throw new EncodeError(`Failed to write ${outputPath}: ${(err as Error).message}`, { path: outputPath, cause: err })
   }
 
-  // Write PCM to temporary file
-  await fs.writeFile(tempPcmPath, buffer)
+  try {
+    await runLame(input, sampleRate, options, createWriteStream(outputPath), outputPath)
+  } catch (error) {
+    // Don't leave a truncated MP3 behind (the path may not be a file if it couldn't be opened)
+    await fs.unlink(outputPath).catch(() => {})
+    throw error
+  }
 
-  // Use lame to convert PCM to MP3
-  return new Promise((resolve, reject) => {
-    const lame = spawn('lame', [
-      '-r', // Input is raw PCM
-      '--little-endian', // Input is little-endian
-      '--signed', // Input is signed
-      '--bitwidth',
-      '16', // Input is 16-bit
-      '-s',
-      sampleRate.toString(), // Input sample rate
-      '-m',
-      'm', // Mono mode
-      '-q',
-      '4', // Quality setting
-      tempPcmPath, // Input file
-      outputPath, // Output file (using the full path)
-    ])
+  logger.debug('Saved MP3 file', { path: outputPath })
+  return outputPath
+}
+
+/**
+ * Audio prepared for lame: one or two channels, matching the channel mode of the MP3
+ */
+interface EncoderInput {
+  channelData: Float32Array[]
+  mode: keyof typeof MP3_MODES
+}
 
-    lame.on('close', async (code) => {
-      try {
-        // Clean up temporary PCM file
-        await fs.unlink(tempPcmPath)
+/**
+ * Check the encoder options and bring the audio to the channel count of the MP3
+ */
+const toEncoderInput = (
+  audio: Float32Array | Float32Array[],
+  sampleRate: number,
+  options: MP3EncodeOptions,
+  outputPath?: string,
+): EncoderInput => {
+  const channelData = Array.isArray(audio) ? audio : [audio]
+  if (channelData.length < 1 || channelData.length > 2) {
+    throw new EncodeError(`lame can only encode mono or stereo audio, got ${channelData.length} channels`, {
+      path: outputPath,
+    })
+  }
 
-        if (code === 0) {
-          resolve(outputPath)
-        } else {
-          reject(new Error(`lame encoder exited with code ${code}`))
-        }
-      } catch (err) {
-        reject(err)
+  const issues: OptionIssue[] = []
+  const { bitrate, vbrQuality, quality, outputSampleRate, mode } = options
+  if (bitrate !== undefined && !MP3_BITRATES.includes(bitrate)) {
+    issues.push({ field: 'bitrate', message: `should be one of ${MP3_BITRATES.join(', ')} kbps, got ${bitrate}` })
+  }
+  if (bitrate !== undefined && vbrQuality !== undefined) {
+    issues.push({ field: 'vbrQuality', message: 'can only be set without bitrate' })
+  }
+  for (const [field, value] of [
+    ['vbrQuality', vbrQuality],
+    ['quality', quality],
+  ] as const) {
+    if (value !== undefined && !(typeof value === 'number' && value >= 0 && value <= 9)) {
+      issues.push({ field, message: `should be a number from 0 to 9, got ${value}` })
+    }
+  }
+  if (outputSampleRate !== undefined && !MP3_SAMPLE_RATES.includes(outputSampleRate)) {
+    issues.push({
+      field: 'outputSampleRate',
+      message: `should be one of ${MP3_SAMPLE_RATES.join(', ')} Hz, got ${outputSampleRate}`,
+    })
+  }
+  if (mode !== undefined && !(mode in MP3_MODES)) {
+    issues.push({ field: 'mode', message: `should be one of ${Object.keys(MP3_MODES).join(', ')}, got ${mode}` })
+  }
+  if (issues.length > 0) {
+    throw new InvalidOptionsError(issues)
+  }
+
+  const outputMode = mode ?? (channelData.length === 2 ? 'stereo' : 'mono')
+  if (outputMode === 'mono' && channelData.length === 2) {
+    return { channelData: [downmix(channelData, 'mean', sampleRate)], mode: outputMode }
+  }
+  if (outputMode !== 'mono' && channelData.length === 1) {
+    const channel = channelData[0] as Float32Array
+    return { channelData: [channel, channel], mode: outputMode }
+  }
+  return { channelData, mode: outputMode }
+}
+
+/**
+ * Build lame's arguments for raw 16-bit PCM on stdin and an MP3 on stdout
+ */
+const lameArguments = (
+  sampleRate: number,
+  mode: keyof typeof MP3_MODES,
+  { bitrate, vbrQuality, quality = 4, outputSampleRate, tags = {} }: MP3EncodeOptions,
+): string[] => {
+  const args = [
+    '-r', // Input is raw PCM
+    '--little-endian', // Input is little-endian
+    '--signed', // Input is signed
+    '--bitwidth',
+    '16', // Input is 16-bit
+    '-s',
+    (sampleRate / 1000).toString(), // Input sample rate in kHz
+    '-m',
+    MP3_MODES[mode],
+    '-q',
+    quality.toString(),
+    '--silent', // No progress output
+  ]
+
+  if (bitrate !== undefined) {
+    args.push('--cbr', '-b', bitrate.toString())
+  } else if (vbrQuality !== undefined) {
+    args.push('-V', vbrQuality.toString())
+  }
+  if (outputSampleRate !== undefined) {
+    args.push('--resample', (outputSampleRate / 1000).toString())
+  }
+
+  const tagArguments = Object.entries(tags).flatMap(([tag, value]) =>
+    value === undefined ? [] : [ID3_TAG_ARGUMENTS[tag as keyof ID3Tags], value.toString()],
+  )
+  if (tagArguments.length > 0) {
+    args.push('--add-id3v2', ...tagArguments)
+  }
+
+  return [...args, '-', '-'] // Read stdin, write stdout
+}
+
+/**
+ * Convert channels to interleaved 16-bit PCM
+ */
+const toPCM16 = (channelData: Float32Array[]): Buffer => {
+  const frameCount = Math.min(...channelData.map((channel) => channel.length))
+  const buffer = Buffer.alloc(frameCount * channelData.length * 2)
+  for (let i = 0; i < frameCount; i++) {
+    channelData.forEach((channel, index) => {
+      // Clamp to [-1.0, 1.0] and convert to 16-bit
+      const sample = Math.max(-1.0, Math.min(1.0, channel[i] as number))
+      buffer.writeInt16LE(Math.floor(sample * 32767), (i * channelData.length + index) * 2)
+    })
+  }
+  return buffer
+}
+
+/**
+ * Encode audio with lame, streaming PCM to its stdin and its stdout to `output`
+ */
+const runLame = (
+  { channelData, mode }: EncoderInput,
+  sampleRate: number,
+  options: MP3EncodeOptions,
+  output: Writable,
+  outputPath?: string,
+): Promise<void> => {
+  const pcm = toPCM16(channelData)
+
+  return new Promise((resolve, reject) => {
+    const lame = spawn('lame', lameArguments(sampleRate, mode, options))
+
+    let settled = false
+    const settle = (error?: Error): void => {
+      if (settled) {
+        return
+      }
+      settled = true
+      if (error) {
+        lame.kill()
+        output.destroy()
+        reject(error)
+      } else {
+        resolve()
       }
+    }
+
+    let stderrOutput = ''
+    lame.stderr.on('data', (data) => {
+      stderrOutput += data.toString()
     })
 
     lame.on('error', (err) => {
-      reject(new Error(`Failed to encode MP3: ${err.message}`))
+      settle(
+        isMissingBinary(err)
+          ? new DecoderNotFoundError(LAME_MISSING, { binary: 'lame', path: outputPath, cause: err })
+          : new EncodeError(`Failed to encode MP3: ${err.message}`, { path: outputPath, cause: err }),
+      )
     })
+
+    // lame stops reading when it rejects its arguments, which its exit code reports
+    lame.stdin.on('error', () => {})
+
+    const written = pipeline(lame.stdout, output).catch((err: Error) => {
+      throw new EncodeError(`Failed to write MP3: ${err.message}`, { path: outputPath, cause: err })
+    })
+    const exited = new Promise<number | null>((resolveExit) => lame.on('close', resolveExit))
+
+    Promise.all([written, exited]).then(([, code]) => {
+      settle(
+        code === 0
+          ? undefined
+          : new EncodeError(`lame encoder exited with code ${code}`, {
+              path: outputPath,
+              exitCode: code,
+              stderr: stderrOutput,
+            }),
+      )
+    }, settle)
+
+    lame.stdin.end(pcm)
   })
 }
 
@@ -178,63 +495,25 @@ export async function saveMP3File(audio: Float32Array, sampleRate: number, outpu
  */
 export async function processMP3File(mp3Path: string, options: ProcessMP3Options = {}): Promise<ProcessMP3Result> {
   try {
-    // Use provided VAD instance or create a new one
-    const vad = options.vadInstance || (await VAD.create(options))
-
     // Decode the MP3 file
-    const [audioData, detectedSampleRate] = await decodeMP3(mp3Path)
+    const [channelData, detectedSampleRate] = await decodeMP3Channels(mp3Path)
 
     // Process the audio with the VAD
-    const startTime = Date.now()
-    const segments: SpeechSegment[] = []
-
-    // Collect all segments (only start and end times)
-    for await (const segment of vad.run(audioData, detectedSampleRate)) {
-      segments.push(segment)
-    }
-
-    const processingTime = Date.now() - startTime
-
-    // Return the results (without output file paths)
-    return {
-      segments,
-      processingTime,
-      audioData,
-      sampleRate: detectedSampleRate,
-    }
+    return await processAudioData(channelData, detectedSampleRate, options)
   } catch (error) {
-    logger.error('Error processing MP3 for VAD:', error)
+    getLogger(options.logger).error('Error processing MP3 for VAD', { path: mp3Path, error })
     throw error
   }
 }
 
-/**
- * Concatenates multiple Float32Arrays into a single array
- */
-const concatArrays = (arrays: Float32Array[]): Float32Array => {
-  const sizes = arrays.reduce(
-    (out, next) => {
-      out.push((out.at(-1) as number) + next.length)
-      return out
-    },
-    [0],
-  )
-
-  const outArray = new Float32Array(sizes.at(-1) as number)
-  arrays.forEach((arr, index) => {
-    const place = sizes[index]
-    outArray.set(arr, place)
-  })
-
-  return outArray
-}
-
 /**
  * Extracts specific segments from an MP3, adds padding, and saves as a new MP3.
  * @param inputPath Path to the input MP3 file.
  * @param outputPath Path to save the resulting MP3 file.
  * @param segments Array of { start: number, end: number } timestamps in milliseconds.
+ *                 Exact `startSample`/`endSample` indices are used instead when the segments carry them.
  * @param paddingMs Padding duration in milliseconds to add at the start, end, and between segments. Default is 500ms.
+ * @param encodeOptions Bitrate, quality, sample rate, channel mode and tags of the saved MP3
  * @returns Promise that resolves when the file is saved.
  */
 export async function processMP3Segments(
@@ -242,64 +521,22 @@ export async function processMP3Segments(
   outputPath: string,
   segments: SpeechSegment[],
   paddingMs: number = 500,
+  encodeOptions: MP3EncodeOptions = {},
 ): Promise<void> {
   try {
     // Decode the input MP3
     const [audioData, sampleRate] = await decodeMP3(inputPath)
-    logger.log(`Input MP3 decoded: ${audioData.length} samples, ${sampleRate}Hz`)
-
-    // Calculate padding samples based on the *original* sample rate
-    const paddingDurationSeconds = paddingMs / 1000
-    const paddingSamples = Math.floor(paddingDurationSeconds * sampleRate)
-    const silencePadding = new Float32Array(paddingSamples).fill(0)
-
-    const audioChunks: Float32Array[] = []
-
-    // Add initial padding
-    audioChunks.push(silencePadding)
-
-    // Extract and add segments with intermediate padding
-    segments.forEach((segment, index) => {
-      // Calculate sample indices from timestamps (now in milliseconds)
-      const startSample = Math.floor((segment.start / 1000) * sampleRate)
-      const endSample = Math.floor((segment.end / 1000) * sampleRate)
-
-      if (startSample >= endSample || endSample > audioData.length || startSample < 0) {
-        logger.error(
-          `Invalid segment timestamp: start=${segment.start}ms (${startSample}), end=${segment.end}ms (${endSample}). Max samples: ${audioData.length}. Skipping segment.`,
-        )
-        return // Skip invalid segment
-      }
+    logger.debug('Input MP3 decoded', { path: inputPath, samples: audioData.length, sampleRate })
 
-      // Note: audioSegment is Float32Array, but SpeechSegment no longer holds audio data.
-      // The VAD result provides start/end times, which we use here.
-      const audioSegment = audioData.slice(startSample, endSample)
-      audioChunks.push(audioSegment)
-
-      // Add padding between segments (but not after the last one)
-      if (index < segments.length - 1) {
-        audioChunks.push(silencePadding)
-      }
-    })
-
-    // Add final padding
-    audioChunks.push(silencePadding)
-
-    // Check if any valid chunks were added
-    if (audioChunks.length <= 2) {
-      // Only initial and final padding means no valid segments
-      throw new Error('No valid audio segments found to process.')
-    }
-
-    // Concatenate all chunks (padding + segments + padding)
-    const mergedAudio = concatArrays(audioChunks)
-    logger.log(`Merged audio created: ${mergedAudio.length} samples`)
+    // Slice the segments out of the original audio and join them with padding
+    const mergedAudio = joinSegments(audioData, sampleRate, segments, paddingMs)
+    logger.debug('Merged audio created', { samples: mergedAudio.length })
 
     // Save the final merged audio using the original sample rate
-    await saveMP3File(mergedAudio, sampleRate, outputPath)
-    logger.log(`Output MP3 saved to: ${outputPath}`)
+    await saveMP3File(mergedAudio, sampleRate, outputPath, encodeOptions)
+    logger.info('Output MP3 saved', { path: outputPath })
   } catch (error) {
-    logger.error(`Error processing MP3 segments for ${inputPath}:`, error)
+    logger.error('Error processing MP3 segments', { path: inputPath, error })
     throw error // Re-throw the error for the caller
   }
 }
@@ -312,19 +549,15 @@ export function checkLameInstallation(): Promise<void> {
   return new Promise((resolve, reject) => {
     const process = spawn('lame', ['--version'])
 
-    process.on('error', () => {
-      reject(
-        new Error(
-          'Error: lame is not installed or not in PATH. Please install lame for MP3 encoding/decoding (e.g., brew install lame on macOS)',
-        ),
-      )
+    process.on('error', (err) => {
+      reject(new DecoderNotFoundError(LAME_MISSING, { binary: 'lame', cause: err }))
     })
 
     process.on('close', (code) => {
       if (code === 0) {
         resolve()
       } else {
-        reject(new Error(`lame command exited with code ${code}`))
+        reject(new DecoderNotFoundError(`lame command exited with code ${code}`, { binary: 'lame' }))
       }
     })
   })
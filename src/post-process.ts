@@ -0,0 +1,382 @@
+import type { SpeechSegment, VADEvent } from './vad'
+import { Message } from './messages'
+import { InvalidOptionsError, type OptionIssue } from './errors'
+
+/**
+ * Options for post-processing detected speech segments, named after their counterparts in Silero's reference
+ * `get_speech_timestamps`
+ */
+export interface PostProcessOptions {
+  /** Merge segments of the same channel separated by less than this many milliseconds of silence (defaults to 0) */
+  minSilenceDurationMs?: number
+  /** Drop segments shorter than this many milliseconds, after merging (defaults to 0) */
+  minSpeechDurationMs?: number
+  /**
+   * Milliseconds of audio added before and after each segment (defaults to 0). Neighbouring segments split the silence
+   * between them instead of overlapping
+   */
+  speechPadMs?: number
+  /**
+   * Split segments longer than this many seconds (defaults to Infinity). Each cut is made at the quietest frame in the
+   * second half of the allowed duration, and the limit still holds once `speechPadMs` is added
+   */
+  maxSpeechDurationS?: number
+}
+
+/**
+ * What is known about the audio the segments were detected on
+ */
+export interface PostProcessContext {
+  /** Speech probability of each frame, used to split long segments at the quietest frame */
+  probabilities?: ArrayLike<number>
+  /** Index of the frame the first entry of `probabilities` belongs to (defaults to 0) */
+  firstFrame?: number
+  /** Duration of each frame of `probabilities` in milliseconds */
+  frameMs?: number
+  /** Duration of the audio in milliseconds, so padding doesn't go past its end */
+  duration?: number
+  /** Sample rate of the input audio in Hz, used to update `startSample`/`endSample` */
+  sampleRate?: number
+}
+
+/**
+ * Check whether any post-processing step is enabled
+ * @param options Post-processing options
+ */
+export function hasPostProcessing(options: PostProcessOptions): boolean {
+  const { minSilenceDurationMs = 0, minSpeechDurationMs = 0, speechPadMs = 0, maxSpeechDurationS = Infinity } = options
+  return minSilenceDurationMs > 0 || minSpeechDurationMs > 0 || speechPadMs > 0 || maxSpeechDurationS !== Infinity
+}
+
+/**
+ * Merge, filter, split and pad speech segments
+ *
+ * The steps run in that order, separately for each channel:
+ * 1. Segments separated by less than `minSilenceDurationMs` are merged
+ * 2. Segments shorter than `minSpeechDurationMs` are dropped
+ * 3. Segments longer than `maxSpeechDurationS` are split at the quietest frame (or exactly at the limit when no frame
+ *    probabilities are given)
+ * 4. Segments are padded by `speechPadMs` on both sides, without overlapping their neighbours or leaving the audio
+ *
+ * Segment `audio` is left out of the result, since the segments no longer match the audio collected for them.
+ * @param segments Segments with `start`/`end` in milliseconds
+ * @param options Post-processing options
+ * @param context Frame probabilities, duration and sample rate of the audio
+ * @returns Processed segments, sorted by start time
+ */
+export function postProcessSegments(
+  segments: SpeechSegment[],
+  options: PostProcessOptions,
+  context: PostProcessContext = {},
+): SpeechSegment[] {
+  const { minSilenceDurationMs = 0, minSpeechDurationMs = 0, speechPadMs = 0, maxSpeechDurationS = Infinity } = options
+  validatePostProcessOptions(options)
+
+  // Split early enough that padding can't take segments over the limit again
+  const maxDurationMs = maxSpeechDurationS * 1000 - 2 * speechPadMs
+
+  const channels = new Map<number | undefined, SpeechSegment[]>()
+  for (const { audio, ...segment } of [...segments].sort((a, b) => a.start - b.start)) {
+    channels.set(segment.channel, [...(channels.get(segment.channel) ?? []), segment])
+  }
+
+  const processed: SpeechSegment[] = []
+  for (const channelSegments of channels.values()) {
+    const kept = mergeSegments(channelSegments, minSilenceDurationMs).filter(
+      (segment) => segment.end - segment.start >= minSpeechDurationMs,
+    )
+    const split = kept.flatMap((segment) => splitSegment(segment, maxDurationMs, context))
+    processed.push(...padSegments(split, speechPadMs, context.duration))
+  }
+
+  return processed
+    .sort((a, b) => a.start - b.start || (a.channel ?? 0) - (b.channel ?? 0))
+    .map((segment) => withSamples(segment, context.sampleRate))
+}
+
+/**
+ * Post-processes the segments of a VAD stream while it runs, keeping memory independent of the length of the audio
+ *
+ * Segments are held back until the silence after them is long enough that no later segment can be merged with them
+ * or share their padding, and are then post-processed as a group with `postProcessSegments`. Only the frame
+ * probabilities since the start of the oldest held segment are kept. Segment `audio` is left out, as with
+ * `postProcessSegments`.
+ */
+export class SegmentPostProcessor {
+  /** Detected segments not post-processed yet */
+  private pending: SpeechSegment[] = []
+
+  /** Speech probability of each frame since `firstFrame` */
+  private probabilities: number[] = []
+
+  /** Index of the frame the first entry of `probabilities` belongs to */
+  private firstFrame = 0
+
+  /** Whether a speech segment is currently open */
+  private speaking = false
+
+  /** Silence after which later segments can't affect the held segments */
+  private independentGapMs: number
+
+  /**
+   * Creates a new segment post-processor
+   * @param options Post-processing options
+   * @param frameMs Duration of each frame in milliseconds
+   * @param preSpeechPadMs Audio the VAD includes before speech onsets, bounding how early a new segment can start
+   * @param sampleRate Sample rate of the input audio in Hz, used to update `startSample`/`endSample`
+   */
+  constructor(
+    private options: PostProcessOptions,
+    private frameMs: number,
+    private preSpeechPadMs: number,
+    private sampleRate?: number,
+  ) {
+    validatePostProcessOptions(options)
+    const { minSilenceDurationMs = 0, speechPadMs = 0 } = options
+    this.independentGapMs = Math.max(minSilenceDurationMs, 2 * speechPadMs)
+  }
+
+  /**
+   * Record an event of the VAD stream. Streams need to include `Message.AudioFrame` events
+   * @param event Event of the VAD stream
+   * @returns Post-processed segments that can no longer change
+   */
+  push(event: VADEvent): SpeechSegment[] {
+    switch (event.msg) {
+      case Message.AudioFrame:
+        this.probabilities[event.frameIndex - this.firstFrame] = event.probability as number
+        return this.speaking ? [] : this.release(event)
+
+      case Message.SpeechStart:
+        this.speaking = true
+        return []
+
+      case Message.SpeechEnd:
+      case Message.VADMisfire:
+        this.speaking = false
+        if (event.segment) {
+          this.pending.push(event.segment)
+        }
+        return []
+
+      default:
+        return []
+    }
+  }
+
+  /**
+   * Post-process the segments still held back, once the stream has ended
+   * @param duration Duration of the audio in milliseconds
+   * @returns Remaining post-processed segments
+   */
+  end(duration: number): SpeechSegment[] {
+    const segments = this.process(duration)
+    this.probabilities = []
+    return segments
+  }
+
+  /**
+   * Post-process the held segments if no segment starting after the frame can affect them, and drop the frame
+   * probabilities no later segment can need
+   */
+  private release(frame: VADEvent): SpeechSegment[] {
+    // A new segment starts no earlier than the pre-speech padding before the frame
+    const earliestStart = frame.time - this.preSpeechPadMs
+    const last = this.pending.at(-1)
+    if (last && earliestStart - last.end < this.independentGapMs) {
+      return []
+    }
+
+    // Padding can't reach past the frame, so the end of the audio doesn't matter yet
+    const segments = this.process(Infinity)
+    const keepFrom = Math.max(this.firstFrame, Math.floor(earliestStart / this.frameMs) - 1)
+    this.probabilities.splice(0, keepFrom - this.firstFrame)
+    this.firstFrame = keepFrom
+    return segments
+  }
+
+  /**
+   * Post-process the held segments as a group
+   */
+  private process(duration: number): SpeechSegment[] {
+    if (this.pending.length === 0) {
+      return []
+    }
+
+    const segments = postProcessSegments(this.pending, this.options, {
+      probabilities: this.probabilities,
+      firstFrame: this.firstFrame,
+      frameMs: this.frameMs,
+      duration,
+      sampleRate: this.sampleRate,
+    })
+    this.pending = []
+    return segments
+  }
+}
+
+/**
+ * Find every problem with the post-processing options
+ * @param options Post-processing options
+ * @returns Invalid options, empty if there are none
+ */
+export function findPostProcessIssues(options: PostProcessOptions): OptionIssue[] {
+  const issues: OptionIssue[] = []
+
+  for (const field of ['minSilenceDurationMs', 'minSpeechDurationMs', 'speechPadMs', 'maxSpeechDurationS'] as const) {
+    const value = options[field]
+    if (value !== undefined && (typeof value !== 'number' || Number.isNaN(value) || value < 0)) {
+      issues.push({ field, message: `should be a non-negative number, got ${value}` })
+    }
+  }
+
+  const { speechPadMs = 0, maxSpeechDurationS = Infinity } = options
+  if (maxSpeechDurationS * 1000 <= 2 * speechPadMs) {
+    issues.push({
+      field: 'maxSpeechDurationS',
+      message: `should be longer than twice speechPadMs (${speechPadMs}ms), got ${maxSpeechDurationS}s`,
+    })
+  }
+
+  return issues
+}
+
+/**
+ * Check that the post-processing options are usable, throwing an `InvalidOptionsError` listing every problem
+ * @param options Post-processing options
+ */
+export function validatePostProcessOptions(options: PostProcessOptions): void {
+  const issues = findPostProcessIssues(options)
+  if (issues.length > 0) {
+    throw new InvalidOptionsError(issues)
+  }
+}
+
+/**
+ * Merge segments (sorted by start time) separated by less than `minSilenceMs`
+ */
+const mergeSegments = (segments: SpeechSegment[], minSilenceMs: number): SpeechSegment[] => {
+  const merged: SpeechSegment[] = []
+
+  for (const segment of segments) {
+    const previous = merged.at(-1)
+    // Overlapping segments are always merged
+    if (previous && (segment.start < previous.end || segment.start - previous.end < minSilenceMs)) {
+      // The offset comes from whichever segment ends last, and is left out if that one has none
+      const { offset, ...rest } = previous
+      const lastOffset = segment.end >= previous.end ? segment.offset : offset
+      merged[merged.length - 1] = {
+        ...rest,
+        end: Math.max(previous.end, segment.end),
+        ...(lastOffset !== undefined && { offset: lastOffset }),
+      }
+    } else {
+      merged.push(segment)
+    }
+  }
+
+  return merged
+}
+
+/**
+ * Split a segment into pieces of at most `maxDurationMs`, cutting at the quietest frame of each piece's second half
+ */
+const splitSegment = (segment: SpeechSegment, maxDurationMs: number, context: PostProcessContext): SpeechSegment[] => {
+  const pieces: SpeechSegment[] = []
+  let start = segment.start
+
+  while (segment.end - start > maxDurationMs) {
+    const cut = quietestPoint(start + maxDurationMs / 2, start + maxDurationMs, context) ?? start + maxDurationMs
+    pieces.push({ ...segment, start, end: cut, onset: clamp(segment.onset ?? start, start, cut), offset: cut })
+    start = cut
+  }
+
+  if (pieces.length === 0) {
+    return [segment]
+  }
+
+  // Keep the onset and offset of the last piece inside it, in order
+  const onset = clamp(segment.onset ?? start, start, segment.end)
+  const last: SpeechSegment = { ...segment, start, onset }
+  if (segment.offset !== undefined) {
+    last.offset = clamp(segment.offset, onset, segment.end)
+  }
+  pieces.push(last)
+  return pieces
+}
+
+/**
+ * Limit a time to the range from `from` to `to`
+ */
+const clamp = (time: number, from: number, to: number): number => Math.min(to, Math.max(from, time))
+
+/**
+ * Find the middle of the frame with the lowest speech probability whose middle lies between `from` and `to`
+ * @param from Earliest time in milliseconds
+ * @param to Latest time in milliseconds
+ * @param context Frame probabilities
+ * @returns Time in milliseconds, or undefined without probabilities for that range
+ */
+export function quietestPoint(
+  from: number,
+  to: number,
+  { probabilities, firstFrame = 0, frameMs }: PostProcessContext,
+): number | undefined {
+  if (!probabilities || !frameMs) {
+    return undefined
+  }
+
+  let quietest: number | undefined
+  let lowest = Infinity
+  const first = Math.max(firstFrame, Math.ceil(from / frameMs - 0.5))
+  const last = Math.min(firstFrame + probabilities.length - 1, Math.floor(to / frameMs - 0.5))
+
+  for (let frame = first; frame <= last; frame++) {
+    const probability = probabilities[frame - firstFrame] as number
+    // Prefer the latest of equally quiet frames, keeping pieces as long as allowed
+    if (probability <= lowest) {
+      lowest = probability
+      quietest = (frame + 0.5) * frameMs
+    }
+  }
+
+  return quietest
+}
+
+/**
+ * Pad segments (sorted by start time) by `padMs`, sharing shorter gaps between neighbours
+ */
+const padSegments = (segments: SpeechSegment[], padMs: number, duration: number = Infinity): SpeechSegment[] => {
+  if (padMs <= 0) {
+    return segments
+  }
+
+  return segments.map((segment, index) => {
+    const previous = segments[index - 1]
+    const next = segments[index + 1]
+    const before = previous ? Math.max(0, Math.min(padMs, (segment.start - previous.end) / 2)) : padMs
+    const after = next ? Math.max(0, Math.min(padMs, (next.start - segment.end) / 2)) : padMs
+
+    return {
+      ...segment,
+      start: Math.max(0, segment.start - before),
+      end: Math.min(duration, segment.end + after),
+    }
+  })
+}
+
+/**
+ * Update the input sample indices of a segment to match its timestamps
+ */
+const withSamples = (segment: SpeechSegment, sampleRate: number | undefined): SpeechSegment => {
+  const { startSample, endSample, ...rest } = segment
+  if (!sampleRate) {
+    return rest
+  }
+
+  return {
+    ...rest,
+    startSample: Math.round((segment.start * sampleRate) / 1000),
+    endSample: Math.round((segment.end * sampleRate) / 1000),
+  }
+}
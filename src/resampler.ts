@@ -1,3 +1,10 @@
+import { InvalidOptionsError } from './errors'
+
+/**
+ * Quality presets for the resampler, trading filter length (CPU time) for stopband attenuation
+ */
+export type ResampleQuality = 'low' | 'medium' | 'high'
+
 /**
  * Options for configuring the audio resampler
  */
@@ -8,31 +15,168 @@ interface ResamplerOptions {
   targetSampleRate: number
   /** Number of samples in each output frame */
   targetFrameSize: number
+  /** Filter quality preset (defaults to 'medium') */
+  quality?: ResampleQuality
+}
+
+/**
+ * Filter parameters for each quality preset
+ */
+const QUALITY_PRESETS: Record<ResampleQuality, { zeroCrossings: number; kaiserBeta: number; rolloff: number }> = {
+  low: { zeroCrossings: 8, kaiserBeta: 5, rolloff: 0.9 },
+  medium: { zeroCrossings: 16, kaiserBeta: 7, rolloff: 0.94 },
+  high: { zeroCrossings: 32, kaiserBeta: 9, rolloff: 0.97 },
+}
+
+/** Largest number of filter phases to precompute; larger ratios compute coefficients per sample */
+const MAX_PRECOMPUTED_PHASES = 1024
+
+/** Number of input samples pushed into the ring buffer at a time when streaming */
+const STREAM_BLOCK_SIZE = 4096
+
+const greatestCommonDivisor = (a: number, b: number): number => (b === 0 ? a : greatestCommonDivisor(b, a % b))
+
+/**
+ * Zeroth-order modified Bessel function of the first kind, used by the Kaiser window
+ */
+const besselI0 = (x: number): number => {
+  let sum = 1
+  let term = 1
+  for (let k = 1; term > 1e-12 * sum; k++) {
+    term *= (x / (2 * k)) ** 2
+    sum += term
+  }
+  return sum
+}
+
+/**
+ * Growable ring buffer of float samples addressed by absolute sample index
+ */
+class SampleRingBuffer {
+  private buffer = new Float32Array(8192)
+  private mask = this.buffer.length - 1
+
+  /** Absolute index of the oldest sample still held */
+  start = 0
+  /** Absolute index one past the newest sample */
+  end = 0
+
+  /**
+   * Append samples, growing the buffer if needed
+   */
+  push(samples: Float32Array): void {
+    if (this.end - this.start + samples.length > this.buffer.length) {
+      this.grow(this.end - this.start + samples.length)
+    }
+
+    for (let i = 0; i < samples.length; i++) {
+      this.buffer[(this.end + i) & this.mask] = samples[i] as number
+    }
+    this.end += samples.length
+  }
+
+  /**
+   * Get the sample at an absolute index. Samples before the start of the stream (or already discarded) read as 0
+   */
+  get(index: number): number {
+    return index >= this.start && index < this.end ? (this.buffer[index & this.mask] as number) : 0
+  }
+
+  /**
+   * Release samples before an absolute index
+   */
+  discardBefore(index: number): void {
+    this.start = Math.min(Math.max(this.start, index), this.end)
+  }
+
+  private grow(required: number): void {
+    let capacity = this.buffer.length
+    while (capacity < required) {
+      capacity *= 2
+    }
+
+    const next = new Float32Array(capacity)
+    for (let i = this.start; i < this.end; i++) {
+      next[i & (capacity - 1)] = this.buffer[i & this.mask] as number
+    }
+    this.buffer = next
+    this.mask = capacity - 1
+  }
 }
 
 /**
  * Audio resampler for converting audio between different sample rates
  *
- * This implementation uses a simple averaging approach to downsample
- * audio from a higher sample rate to a lower one, primarily designed
- * for converting audio to the 16kHz format required by the Silero VAD model.
+ * This implementation is a band-limited polyphase resampler using a Kaiser-windowed sinc filter. It supports both
+ * upsampling and downsampling at any ratio between integer sample rates, primarily designed for converting audio to
+ * the 16kHz format required by the Silero VAD model.
  */
 export class Resampler {
   /** Buffer for storing input audio samples during processing */
-  private inputBuffer: number[]
+  private input = new SampleRingBuffer()
+
+  /** Output frame being filled */
+  private outputFrame: Float32Array
+
+  /** Number of samples already written to the output frame */
+  private outputFill = 0
+
+  /** Upsampling factor of the reduced rate ratio */
+  private up: number
+
+  /** Downsampling factor of the reduced rate ratio */
+  private down: number
+
+  /** Input sample index of the next output sample */
+  private inputIndex = 0
+
+  /** Filter phase of the next output sample (the fractional input position is `phase / up`) */
+  private phase = 0
+
+  /** Half the filter length in input samples */
+  private halfTaps: number
+
+  /** Filter cutoff relative to the input Nyquist frequency */
+  private cutoff: number
+
+  /** Kaiser window shape parameter */
+  private kaiserBeta: number
+
+  /** Precomputed filter coefficients per phase, if the number of phases is small enough */
+  private phaseFilters: Float32Array[] | undefined
 
   /**
    * Creates a new resampler
    * @param options Configuration options for resampling
    */
   constructor(public options: ResamplerOptions) {
-    if (options.nativeSampleRate < options.targetSampleRate) {
-      console.warn(
-        `Upsampling not supported: nativeSampleRate (${options.nativeSampleRate}) ` +
-          `should be >= targetSampleRate (${options.targetSampleRate})`,
+    const { nativeSampleRate, targetSampleRate } = options
+    const isValidRate = (rate: number): boolean => Number.isInteger(rate) && rate > 0
+    if (!isValidRate(nativeSampleRate) || !isValidRate(targetSampleRate)) {
+      throw new InvalidOptionsError(
+        [
+          ['nativeSampleRate', nativeSampleRate],
+          ['targetSampleRate', targetSampleRate],
+        ]
+          .filter(([, rate]) => !isValidRate(rate as number))
+          .map(([field, rate]) => ({ field: field as string, message: `should be a positive integer, got ${rate}` })),
       )
     }
-    this.inputBuffer = []
+
+    const divisor = greatestCommonDivisor(nativeSampleRate, targetSampleRate)
+    this.up = targetSampleRate / divisor
+    this.down = nativeSampleRate / divisor
+
+    const preset = QUALITY_PRESETS[options.quality ?? 'medium']
+    this.cutoff = preset.rolloff * Math.min(1, this.up / this.down)
+    this.halfTaps = Math.ceil(preset.zeroCrossings / this.cutoff)
+    this.kaiserBeta = preset.kaiserBeta
+
+    if (this.up <= MAX_PRECOMPUTED_PHASES) {
+      this.phaseFilters = Array.from({ length: this.up }, (_, phase) => this.computeFilter(phase))
+    }
+
+    this.outputFrame = new Float32Array(options.targetFrameSize)
   }
 
   /**
@@ -42,18 +186,8 @@ export class Resampler {
    * @returns Array of resampled audio frames
    */
   process = (audioFrame: Float32Array): Float32Array[] => {
-    const outputFrames: Float32Array[] = []
-
-    for (const sample of audioFrame) {
-      this.inputBuffer.push(sample)
-
-      while (this.hasEnoughDataForFrame()) {
-        const outputFrame = this.generateOutputFrame()
-        outputFrames.push(outputFrame)
-      }
-    }
-
-    return outputFrames
+    this.input.push(audioFrame)
+    return this.drain()
   }
 
   /**
@@ -63,60 +197,85 @@ export class Resampler {
    * @yields Resampled audio frames
    */
   async *stream(audioInput: Float32Array): AsyncGenerator<Float32Array> {
-    for (const sample of audioInput) {
-      this.inputBuffer.push(sample)
+    for (let offset = 0; offset < audioInput.length; offset += STREAM_BLOCK_SIZE) {
+      yield* this.process(audioInput.subarray(offset, offset + STREAM_BLOCK_SIZE))
+    }
+  }
+
+  /**
+   * Generate every output sample the buffered input allows, returning the completed frames
+   */
+  private drain(): Float32Array[] {
+    const outputFrames: Float32Array[] = []
+
+    // Same rate: pass samples through unfiltered
+    const passthrough = this.up === this.down
 
-      while (this.hasEnoughDataForFrame()) {
-        const outputFrame = this.generateOutputFrame()
-        yield outputFrame
+    while (this.inputIndex + (passthrough ? 0 : this.halfTaps) < this.input.end) {
+      this.outputFrame[this.outputFill++] = passthrough ? this.input.get(this.inputIndex) : this.interpolate()
+
+      if (this.outputFill === this.outputFrame.length) {
+        outputFrames.push(this.outputFrame)
+        this.outputFrame = new Float32Array(this.options.targetFrameSize)
+        this.outputFill = 0
       }
+
+      // Advance to the input position of the next output sample
+      this.phase += this.down
+      this.inputIndex += Math.floor(this.phase / this.up)
+      this.phase %= this.up
     }
+
+    this.input.discardBefore(this.inputIndex - this.halfTaps)
+    return outputFrames
   }
 
   /**
-   * Check if there's enough data in the buffer to generate a complete frame
+   * Compute the output sample at the current input position
    */
-  private hasEnoughDataForFrame(): boolean {
-    const requiredSamples =
-      this.options.targetFrameSize * (this.options.nativeSampleRate / this.options.targetSampleRate)
+  private interpolate(): number {
+    const filter = this.phaseFilters?.[this.phase] ?? this.computeFilter(this.phase)
+    const first = this.inputIndex - this.halfTaps + 1
 
-    return this.inputBuffer.length >= requiredSamples
+    let sum = 0
+    for (let tap = 0; tap < filter.length; tap++) {
+      sum += (filter[tap] as number) * this.input.get(first + tap)
+    }
+    return sum
   }
 
   /**
-   * Generate a resampled output frame from the input buffer
+   * Compute the filter coefficients for a phase, normalized to unity gain at DC
    *
-   * This method implements a simple averaging algorithm for downsampling
+   * Coefficient `tap` applies to the input sample `inputIndex - halfTaps + 1 + tap`.
    */
-  private generateOutputFrame(): Float32Array {
-    const outputFrame = new Float32Array(this.options.targetFrameSize)
-    let outputIndex = 0
-    let inputIndex = 0
-
-    while (outputIndex < this.options.targetFrameSize) {
-      let sum = 0
-      let count = 0
-
-      const nextInputIndex = Math.min(
-        this.inputBuffer.length,
-        Math.ceil(((outputIndex + 1) * this.options.nativeSampleRate) / this.options.targetSampleRate),
-      )
+  private computeFilter(phase: number): Float32Array {
+    const filter = new Float32Array(2 * this.halfTaps)
+    const fraction = phase / this.up
+    const windowNorm = besselI0(this.kaiserBeta)
+
+    let sum = 0
+    for (let tap = 0; tap < filter.length; tap++) {
+      // Distance from the output position to the input sample, in input samples
+      const distance = fraction + this.halfTaps - 1 - tap
+      const ratio = distance / this.halfTaps
 
-      while (inputIndex < nextInputIndex) {
-        const value = this.inputBuffer[inputIndex]
-        if (value !== undefined) {
-          sum += value
-          count++
-        }
-        inputIndex++
+      if (Math.abs(ratio) >= 1) {
+        continue
       }
 
-      outputFrame[outputIndex] = count > 0 ? sum / count : 0
-      outputIndex++
+      const x = Math.PI * this.cutoff * distance
+      const sinc = x === 0 ? 1 : Math.sin(x) / x
+      const window = besselI0(this.kaiserBeta * Math.sqrt(1 - ratio * ratio)) / windowNorm
+
+      filter[tap] = this.cutoff * sinc * window
+      sum += filter[tap] as number
     }
 
-    this.inputBuffer = this.inputBuffer.slice(inputIndex)
+    for (let tap = 0; tap < filter.length; tap++) {
+      filter[tap] = (filter[tap] as number) / sum
+    }
 
-    return outputFrame
+    return filter
   }
 }
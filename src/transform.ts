@@ -0,0 +1,157 @@
+import { Transform, type TransformCallback, type TransformOptions } from 'stream'
+import type { VAD, VADEvent, VADStream } from './vad'
+import { decodeALawSample, decodeMuLawSample } from './g711'
+import { InvalidOptionsError, type OptionIssue } from './errors'
+
+/**
+ * Raw sample encodings accepted by the transform: linear PCM, or G.711 µ-law/A-law telephony audio
+ */
+export type PCMEncoding = 's16le' | 'f32le' | 'mulaw' | 'alaw'
+
+/** Bytes per sample for each supported encoding */
+const BYTES_PER_SAMPLE: Record<PCMEncoding, number> = {
+  s16le: 2,
+  f32le: 4,
+  mulaw: 1,
+  alaw: 1,
+}
+
+/**
+ * Options for the VAD transform stream
+ */
+export interface VADTransformOptions
+  extends Pick<TransformOptions, 'highWaterMark' | 'readableHighWaterMark' | 'writableHighWaterMark' | 'signal'> {
+  /** Sample encoding of the incoming PCM data */
+  encoding: PCMEncoding
+  /** Sample rate of the incoming PCM data in Hz */
+  sampleRate: number
+  /** Number of interleaved channels in the incoming PCM data (averaged to mono). Defaults to 1 */
+  channels?: number
+  /** Whether to output every speech event or only completed speech segments. Defaults to 'events' */
+  output?: 'events' | 'segments'
+}
+
+/**
+ * Node.js Transform stream that runs raw PCM audio through the VAD
+ *
+ * Accepts `Buffer`s of interleaved PCM on the writable side and outputs `VADEvent` (or `SpeechSegment`) objects on
+ * the readable side, so files, sockets and child-process stdout can be piped straight into the VAD:
+ *
+ * ```ts
+ * await pipeline(fs.createReadStream('call.raw'), new VADTransform(vad, { encoding: 's16le', sampleRate: 8000 }), sink)
+ * ```
+ */
+export class VADTransform extends Transform {
+  /** VAD stream holding the detection state */
+  private stream: VADStream
+
+  /** Bytes left over from the previous chunk that don't make up a whole sample frame */
+  private remainder: Buffer = Buffer.alloc(0)
+
+  private encoding: PCMEncoding
+  private channels: number
+  private output: 'events' | 'segments'
+
+  /**
+   * Creates a new VAD transform stream
+   * @param vad Initialized VAD instance
+   * @param options Input format and output options
+   */
+  constructor(vad: VAD, options: VADTransformOptions) {
+    const { encoding, sampleRate, channels = 1, output = 'events', ...streamOptions } = options
+    super({ ...streamOptions, readableObjectMode: true })
+
+    const issues: OptionIssue[] = []
+    if (!(encoding in BYTES_PER_SAMPLE)) {
+      issues.push({ field: 'encoding', message: `unsupported PCM encoding ${encoding}` })
+    }
+    if (!Number.isInteger(channels) || channels < 1) {
+      issues.push({ field: 'channels', message: `should be a positive integer, got ${channels}` })
+    }
+    if (issues.length > 0) {
+      throw new InvalidOptionsError(issues)
+    }
+
+    this.stream = vad.createStream({ sampleRate })
+    this.encoding = encoding
+    this.channels = channels
+    this.output = output
+  }
+
+  /**
+   * Decode a chunk of PCM data and push the resulting events
+   */
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.stream
+      .push(this.decode(chunk))
+      .then((events) => {
+        this.pushEvents(events)
+        callback()
+      })
+      .catch((error) => callback(error))
+  }
+
+  /**
+   * Close any open speech segment when the input ends
+   */
+  _flush(callback: TransformCallback): void {
+    try {
+      this.pushEvents(this.stream.flush())
+      callback()
+    } catch (error) {
+      callback(error instanceof Error ? error : new Error(String(error)))
+    }
+  }
+
+  /**
+   * Push events to the readable side in the configured output format
+   */
+  private pushEvents(events: VADEvent[]): void {
+    for (const event of events) {
+      if (this.output === 'events') {
+        this.push(event)
+      } else if (event.segment) {
+        this.push(event.segment)
+      }
+    }
+  }
+
+  /**
+   * Convert interleaved PCM bytes to mono float samples, keeping incomplete sample frames for the next chunk
+   */
+  private decode(chunk: Buffer): Float32Array {
+    const data = this.remainder.length > 0 ? Buffer.concat([this.remainder, chunk]) : chunk
+    const bytesPerSample = BYTES_PER_SAMPLE[this.encoding]
+    const bytesPerFrame = bytesPerSample * this.channels
+    const frameCount = Math.floor(data.length / bytesPerFrame)
+
+    this.remainder = Buffer.from(data.subarray(frameCount * bytesPerFrame))
+
+    const samples = new Float32Array(frameCount)
+    for (let i = 0; i < frameCount; i++) {
+      let sum = 0
+      for (let channel = 0; channel < this.channels; channel++) {
+        sum += this.readSample(data, i * bytesPerFrame + channel * bytesPerSample)
+      }
+      samples[i] = sum / this.channels
+    }
+
+    return samples
+  }
+
+  /**
+   * Read one sample at a byte offset, normalized to [-1.0, 1.0]
+   */
+  private readSample(data: Buffer, offset: number): number {
+    switch (this.encoding) {
+      case 's16le':
+        return data.readInt16LE(offset) / 32768.0
+      case 'f32le':
+        return data.readFloatLE(offset)
+      case 'mulaw':
+        return decodeMuLawSample(data[offset] as number)
+      case 'alaw':
+        return decodeALawSample(data[offset] as number)
+    }
+  }
+}
@@ -1,13 +1,28 @@
-import * as fs from 'fs/promises'
-import { Silero } from './models'
+import { MODEL_FRAME_SAMPLES, Silero, type ModelVersion, type OrtOptions } from './models'
+import { DEFAULT_MODEL_PATH, loadModel, type ModelSource } from './model-loader'
 import {
   defaultFrameProcessorOptions,
+  findOptionIssues,
   FrameProcessor,
+  resolveFrameDurations,
   validateOptions,
+  type FrameDurationOptions,
   type FrameProcessorOptions,
+  type ValidationMode,
 } from './frame-processor'
 import { Message } from './messages'
-import { Resampler } from './resampler'
+import { Resampler, type ResampleQuality } from './resampler'
+import { DEFAULT_MAX_BATCH_SIZE, InferenceBatcher } from './batcher'
+import {
+  findPostProcessIssues,
+  hasPostProcessing,
+  postProcessSegments,
+  SegmentPostProcessor,
+  validatePostProcessOptions,
+  type PostProcessOptions,
+} from './post-process'
+import { InvalidOptionsError, VADStateError, type OptionIssue } from './errors'
+import { getLogger, type Logger } from './logger'
 
 /**
  * Target sample rate for Silero VAD model in Hz
@@ -18,18 +33,62 @@ export const TARGET_SAMPLE_RATE = 16000
  * Represents a segment of speech detected by the VAD
  */
 export interface SpeechSegment {
-  /** Start time of the speech segment in milliseconds */
+  /** Start time of the speech segment in milliseconds, including the pre-speech padding */
   start: number
-  /** End time of the speech segment in milliseconds */
+  /** End time of the speech segment in milliseconds, including the trailing redemption frames */
   end: number
+  /** Time in milliseconds where speech first went over `positiveSpeechThreshold` */
+  onset?: number
+  /** Time in milliseconds where speech last fell under `negativeSpeechThreshold` (the segment end if it never did) */
+  offset?: number
+  /** Index of the first sample of the segment in the input audio (at the input's sample rate) */
+  startSample?: number
+  /** Index one past the last sample of the segment in the input audio (at the input's sample rate) */
+  endSample?: number
+  /** Audio of the segment, when requested through `segmentAudio` */
+  audio?: Float32Array
+  /** Index of the channel the segment was detected on, for multichannel audio processed per channel */
+  channel?: number
 }
 
+/**
+ * Audio to include in each speech segment
+ *
+ * - `none`: timestamps only
+ * - `resampled`: the 16kHz audio the model processed
+ * - `original`: the input audio at its original sample rate (`startSample` to `endSample`)
+ */
+export type SegmentAudioMode = 'none' | 'resampled' | 'original'
+
 /**
  * Configuration options for the VAD
  */
-export interface VADOptions extends FrameProcessorOptions {
-  /** Path to the ONNX model file (defaults to 'silero_vad.onnx' in the current working directory) */
+export interface VADOptions
+  extends FrameProcessorOptions,
+    FrameDurationOptions,
+    VADCallbacks,
+    ModelSource,
+    OrtOptions,
+    PostProcessOptions {
+  /** Path to the ONNX model file (defaults to the 'silero_vad.onnx' bundled with the package) */
   modelPath?: string
+  /**
+   * Silero model version the file contains. 'auto' detects it from the model's inputs and outputs.
+   * When `frameSamples` is not given, it defaults to a frame size the detected version supports.
+   */
+  modelVersion?: ModelVersion | 'auto'
+  /** Audio to include in each detected speech segment (defaults to 'none') */
+  segmentAudio?: SegmentAudioMode
+  /** Quality of the filter used to resample input audio to 16kHz (defaults to 'medium') */
+  resampleQuality?: ResampleQuality
+  /** Largest number of frames from concurrent streams run through the model in one inference (defaults to 64) */
+  maxBatchSize?: number
+  /** Whether to share the loaded model with other VAD instances loading the same model (defaults to true) */
+  cacheModel?: boolean
+  /** Whether to log invalid options (`warn`) or throw an `InvalidOptionsError` listing all of them (`strict`) */
+  validation?: ValidationMode
+  /** Logger for model loading, configuration warnings and errors (defaults to the package logger, silent unless set) */
+  logger?: Logger
 }
 
 /**
@@ -37,7 +96,12 @@ export interface VADOptions extends FrameProcessorOptions {
  */
 export const defaultVADOptions: VADOptions = {
   ...defaultFrameProcessorOptions,
-  modelPath: `${process.cwd()}/silero_vad.onnx`,
+  modelPath: DEFAULT_MODEL_PATH,
+  modelVersion: 'auto',
+  segmentAudio: 'none',
+  resampleQuality: 'medium',
+  maxBatchSize: DEFAULT_MAX_BATCH_SIZE,
+  validation: 'warn',
 }
 
 /**
@@ -45,16 +109,23 @@ export const defaultVADOptions: VADOptions = {
  * Processes audio files to detect speech segments
  */
 export class VAD {
-  private frameProcessor: FrameProcessor | undefined
+  private model: Silero | undefined
   private options: VADOptions
 
+  /** Batches the frames of concurrent streams into shared inferences */
+  private batcher: InferenceBatcher | undefined
+
+  /** Whether `frameSamples` was chosen by the caller rather than taken from the defaults */
+  private explicitFrameSamples: boolean
+
   /**
    * Creates a new VAD instance
    * @param options Configuration options
+   * @param explicitFrameSamples Whether the caller set `frameSamples`
    */
-  private constructor(options: VADOptions) {
+  private constructor(options: VADOptions, explicitFrameSamples: boolean) {
     this.options = options
-    validateOptions(options)
+    this.explicitFrameSamples = explicitFrameSamples
   }
 
   /**
@@ -69,7 +140,7 @@ export class VAD {
       ...options,
     }
 
-    const vad = new VAD(fullOptions)
+    const vad = new VAD(fullOptions, options.frameSamples !== undefined)
     await vad.init()
     return vad
   }
@@ -79,16 +150,49 @@ export class VAD {
    */
   private async init(): Promise<void> {
     try {
-      // Load the ONNX model from file
-      console.log(`Loading model from ${this.options.modelPath}`)
-      const modelBuffer = await fs.readFile(this.options.modelPath as string)
+      // Load the model from its file, buffer or fetcher, or reuse it if another instance already did
+      const model = await loadModel(this.options)
+
+      // Pick a frame size the model supports unless the caller asked for a specific one
+      if (!this.explicitFrameSamples && !MODEL_FRAME_SAMPLES[model.version].includes(this.options.frameSamples)) {
+        this.options.frameSamples = MODEL_FRAME_SAMPLES[model.version][0] as number
+      }
+      // Convert the millisecond options to frames of the size in use
+      this.options = resolveFrameDurations(this.options)
 
-      // Create and initialize the Silero model
-      const buffer = new Uint8Array(modelBuffer).buffer
-      const model = await Silero.create(buffer)
+      if (this.options.validation === 'strict') {
+        const issues = findVADOptionIssues(this.options, model.version)
+        if (issues.length > 0) {
+          throw new InvalidOptionsError(issues)
+        }
+      } else {
+        validateOptions(this.options, model.version, 'warn', getLogger(this.options.logger))
+        validatePostProcessOptions(this.options)
+      }
 
       // Create the frame processor
-      this.frameProcessor = new FrameProcessor(model.process, model.reset_state, {
+      this.model = model
+      this.batcher = new InferenceBatcher(model, this.options.maxBatchSize)
+    } catch (error) {
+      getLogger(this.options.logger).error('Failed to initialize VAD', { error })
+      throw error
+    }
+  }
+
+  /**
+   * Create a frame processor with its own model state, running its frames through the shared batcher
+   */
+  private createFrameProcessor(): FrameProcessor {
+    if (!this.model || !this.batcher) {
+      throw new VADStateError('VAD not initialized. Wait for the create() method to complete.')
+    }
+
+    const batcher = this.batcher
+    const state = this.model.createState()
+    const frameProcessor = new FrameProcessor(
+      (frame) => batcher.process(state, frame),
+      () => state.reset(),
+      {
         frameSamples: this.options.frameSamples,
         positiveSpeechThreshold: this.options.positiveSpeechThreshold,
         negativeSpeechThreshold: this.options.negativeSpeechThreshold,
@@ -96,73 +200,606 @@ export class VAD {
         preSpeechPadFrames: this.options.preSpeechPadFrames,
         minSpeechFrames: this.options.minSpeechFrames,
         submitUserSpeechOnPause: this.options.submitUserSpeechOnPause,
-      })
+      },
+    )
+    frameProcessor.resume()
+    return frameProcessor
+  }
 
-      this.frameProcessor.resume()
-    } catch (error) {
-      console.error('Failed to initialize VAD:', error)
-      throw error
-    }
+  /**
+   * Create a streaming session for audio that arrives in chunks (e.g. live call audio)
+   *
+   * The stream keeps its own resampler, frame processor and model state across chunks, so timestamps are relative to
+   * the start of the stream rather than to each chunk. Any number of streams can process audio concurrently: they
+   * share the loaded model, and frames of different streams arriving in the same tick are run through it in one
+   * batched inference (up to `maxBatchSize` frames).
+   * @param options Stream options
+   * @returns New VAD stream
+   */
+  createStream(options: VADStreamOptions): VADStream {
+    return new VADStream(this.createFrameProcessor(), this.options, { ...this.streamDefaults(), ...options })
+  }
+
+  /**
+   * Create a session with its own frame processor and model state, sharing the loaded model
+   *
+   * Sessions are independent of each other and of `run`, so they can process different audio at the same time,
+   * including interleaved `run` generators.
+   * @returns New VAD session
+   */
+  createSession(): VADSession {
+    const { minSilenceDurationMs, minSpeechDurationMs, speechPadMs, maxSpeechDurationS } = this.options
+    return new VADSession(this.createFrameProcessor(), this.options, this.streamDefaults(), {
+      minSilenceDurationMs,
+      minSpeechDurationMs,
+      speechPadMs,
+      maxSpeechDurationS,
+    })
   }
 
   /**
    * Process audio data to detect speech segments
+   *
+   * Each call runs in a new session, starting from a clean state. When post-processing options are set, the segments
+   * are merged, filtered, split and padded accordingly (see `postProcessSegments`), and yielded once all the audio
+   * has been processed.
    * @param inputAudio Audio data as Float32Array
    * @param sampleRate Sample rate of the input audio in Hz
    * @returns AsyncGenerator yielding speech segments
    */
   async *run(inputAudio: Float32Array, sampleRate: number): AsyncGenerator<SpeechSegment> {
-    if (!this.frameProcessor) {
-      throw new Error('VAD not initialized. Wait for the create() method to complete.')
+    yield* this.createSession().run(inputAudio, sampleRate)
+  }
+
+  /**
+   * Process audio that arrives in chunks, such as the output of a decoder, to detect speech segments
+   *
+   * Chunks are pulled one at a time, so memory use doesn't depend on the length of the audio. Each call runs in a new
+   * session. Post-processed segments are yielded as soon as later audio can no longer change them, without `audio`.
+   * @param chunks Audio chunks as Float32Arrays
+   * @param sampleRate Sample rate of the input audio in Hz
+   * @returns AsyncGenerator yielding speech segments
+   */
+  async *runStream(
+    chunks: AsyncIterable<Float32Array> | Iterable<Float32Array>,
+    sampleRate: number,
+  ): AsyncGenerator<SpeechSegment> {
+    yield* this.createSession().runStream(chunks, sampleRate)
+  }
+
+  /**
+   * Process audio data, yielding every event the frame processor produces
+   *
+   * Unlike `run`, this includes speech starts, misfires and (with `frameEvents`) each frame's speech probability.
+   * Each call runs in a new session, starting from a clean state.
+   * @param inputAudio Audio data as Float32Array
+   * @param sampleRate Sample rate of the input audio in Hz
+   * @param frameEvents Whether to yield a `Message.AudioFrame` event for every processed frame
+   * @returns AsyncGenerator yielding VAD events
+   */
+  async *events(inputAudio: Float32Array, sampleRate: number, frameEvents: boolean = false): AsyncGenerator<VADEvent> {
+    yield* this.createSession().events(inputAudio, sampleRate, frameEvents)
+  }
+
+  /**
+   * Stream options taken from the VAD options
+   */
+  private streamDefaults(): Omit<VADStreamOptions, 'sampleRate'> {
+    const { onSpeechStart, onSpeechStop, onSpeechEnd, onVADMisfire, onFrameProcessed, segmentAudio, resampleQuality } =
+      this.options
+    return { onSpeechStart, onSpeechStop, onSpeechEnd, onVADMisfire, onFrameProcessed, segmentAudio, resampleQuality }
+  }
+}
+
+/**
+ * Find every problem with the VAD options
+ */
+function findVADOptionIssues(options: VADOptions, modelVersion: ModelVersion): OptionIssue[] {
+  const issues = [...findOptionIssues(options, modelVersion), ...findPostProcessIssues(options)]
+
+  if (options.maxBatchSize !== undefined && (!Number.isInteger(options.maxBatchSize) || options.maxBatchSize < 1)) {
+    issues.push({ field: 'maxBatchSize', message: `should be a positive integer, got ${options.maxBatchSize}` })
+  }
+  if (options.segmentAudio !== undefined && !['none', 'resampled', 'original'].includes(options.segmentAudio)) {
+    issues.push({
+      field: 'segmentAudio',
+      message: `should be none, resampled or original, got ${options.segmentAudio}`,
+    })
+  }
+  if (options.resampleQuality !== undefined && !['low', 'medium', 'high'].includes(options.resampleQuality)) {
+    issues.push({ field: 'resampleQuality', message: `should be low, medium or high, got ${options.resampleQuality}` })
+  }
+
+  return issues
+}
+
+/**
+ * VAD session with its own frame processor and model state
+ *
+ * Created through `VAD.createSession`. Sessions share the loaded model of their VAD, so any number of them can
+ * process audio at the same time. Every `run` or `events` call starts from a clean state.
+ */
+export class VADSession {
+  /** Whether a `run` or `events` generator of the session is in progress */
+  private busy = false
+
+  /**
+   * Creates a new VAD session
+   * @param frameProcessor Frame processor holding the session's speech detection and model state
+   * @param processorOptions Options the frame processor was created with
+   * @param streamOptions Callbacks and segment options used for each run
+   * @param postProcessOptions Post-processing applied to the segments of `run`
+   */
+  constructor(
+    private frameProcessor: FrameProcessor,
+    private processorOptions: FrameProcessorOptions,
+    private streamOptions: Omit<VADStreamOptions, 'sampleRate'>,
+    private postProcessOptions: PostProcessOptions = {},
+  ) {}
+
+  /**
+   * Process audio data to detect speech segments
+   *
+   * With post-processing options, the segments are yielded once all the audio has been processed.
+   * @param inputAudio Audio data as Float32Array
+   * @param sampleRate Sample rate of the input audio in Hz
+   * @returns AsyncGenerator yielding speech segments
+   */
+  async *run(inputAudio: Float32Array, sampleRate: number): AsyncGenerator<SpeechSegment> {
+    if (hasPostProcessing(this.postProcessOptions)) {
+      yield* this.postProcessedRun(inputAudio, sampleRate)
+      return
     }
 
-    // Configure resampler to convert input audio to 16kHz (required by Silero VAD)
-    const resamplerOptions = {
+    for await (const event of this.events(inputAudio, sampleRate)) {
+      if (event.segment) {
+        yield event.segment
+      }
+    }
+  }
+
+  /**
+   * Process audio that arrives in chunks to detect speech segments, pulling one chunk at a time
+   *
+   * With post-processing options, each segment is yielded once the silence after it is long enough that later audio
+   * can't change it, and without `audio`.
+   * @param chunks Audio chunks as Float32Arrays
+   * @param sampleRate Sample rate of the input audio in Hz
+   * @returns AsyncGenerator yielding speech segments
+   */
+  async *runStream(
+    chunks: AsyncIterable<Float32Array> | Iterable<Float32Array>,
+    sampleRate: number,
+  ): AsyncGenerator<SpeechSegment> {
+    if (!hasPostProcessing(this.postProcessOptions)) {
+      for await (const event of this.processChunks(chunks, sampleRate, false)) {
+        if (event.segment) {
+          yield event.segment
+        }
+      }
+      return
+    }
+
+    const frameMs = this.processorOptions.frameSamples / (TARGET_SAMPLE_RATE / 1000)
+    const postProcessor = new SegmentPostProcessor(
+      this.postProcessOptions,
+      frameMs,
+      this.processorOptions.preSpeechPadFrames * frameMs,
+      sampleRate,
+    )
+
+    let inputSamples = 0
+    const counted = async function* (): AsyncGenerator<Float32Array> {
+      for await (const chunk of chunks) {
+        inputSamples += chunk.length
+        yield chunk
+      }
+    }
+
+    for await (const event of this.processChunks(counted(), sampleRate, true)) {
+      yield* postProcessor.push(event)
+    }
+    yield* postProcessor.end((inputSamples / sampleRate) * 1000)
+  }
+
+  /**
+   * Process audio data, yielding every event the frame processor produces
+   * @param inputAudio Audio data as Float32Array
+   * @param sampleRate Sample rate of the input audio in Hz
+   * @param frameEvents Whether to yield a `Message.AudioFrame` event for every processed frame
+   * @returns AsyncGenerator yielding VAD events
+   */
+  async *events(inputAudio: Float32Array, sampleRate: number, frameEvents: boolean = false): AsyncGenerator<VADEvent> {
+    yield* this.processChunks([inputAudio], sampleRate, frameEvents)
+  }
+
+  /**
+   * Reset the speech detection and model state of the session
+   */
+  reset(): void {
+    this.frameProcessor.reset()
+  }
+
+  /**
+   * Run audio chunks through a new VAD stream, yielding its events
+   */
+  private async *processChunks(
+    chunks: AsyncIterable<Float32Array> | Iterable<Float32Array>,
+    sampleRate: number,
+    frameEvents: boolean,
+  ): AsyncGenerator<VADEvent> {
+    if (this.busy) {
+      throw new VADStateError('VAD session is already processing audio. Create a session for each concurrent run.')
+    }
+
+    this.busy = true
+    try {
+      // Start from a clean state, whatever the previous run left behind
+      this.reset()
+
+      const stream = new VADStream(this.frameProcessor, this.processorOptions, {
+        ...this.streamOptions,
+        sampleRate,
+        frameEvents,
+      })
+
+      for await (const chunk of chunks) {
+        yield* stream.events(chunk)
+      }
+
+      // Check for any remaining audio segment after processing
+      yield* stream.flush()
+    } finally {
+      this.busy = false
+    }
+  }
+
+  /**
+   * Detect the segments of the whole audio, keeping each frame's speech probability, and post-process them
+   */
+  private async *postProcessedRun(inputAudio: Float32Array, sampleRate: number): AsyncGenerator<SpeechSegment> {
+    const probabilities: number[] = []
+    const detected: SpeechSegment[] = []
+
+    for await (const event of this.events(inputAudio, sampleRate, true)) {
+      if (event.msg === Message.AudioFrame) {
+        probabilities[event.frameIndex] = event.probability as number
+      } else if (event.segment) {
+        detected.push(event.segment)
+      }
+    }
+
+    const segments = postProcessSegments(detected, this.postProcessOptions, {
+      probabilities,
+      frameMs: this.processorOptions.frameSamples / (TARGET_SAMPLE_RATE / 1000),
+      duration: (inputAudio.length / sampleRate) * 1000,
+      sampleRate,
+    })
+
+    // The segments no longer match the audio collected for them, so take it from the input again
+    const { segmentAudio } = this.streamOptions
+    const resampled = segmentAudio === 'resampled' ? this.resample(inputAudio, sampleRate) : undefined
+    for (const segment of segments) {
+      if (segmentAudio === 'original') {
+        segment.audio = inputAudio.slice(segment.startSample, segment.endSample)
+      } else if (resampled) {
+        const samplesPerMs = TARGET_SAMPLE_RATE / 1000
+        segment.audio = resampled.slice(
+          Math.round(segment.start * samplesPerMs),
+          Math.round(segment.end * samplesPerMs),
+        )
+      }
+      yield segment
+    }
+  }
+
+  /**
+   * Resample audio to the whole 16kHz frames the model processed
+   */
+  private resample(inputAudio: Float32Array, sampleRate: number): Float32Array {
+    const { frameSamples } = this.processorOptions
+    const frames = new Resampler({
       nativeSampleRate: sampleRate,
+      targetSampleRate: TARGET_SAMPLE_RATE,
+      targetFrameSize: frameSamples,
+      quality: this.streamOptions.resampleQuality,
+    }).process(inputAudio)
+
+    const audio = new Float32Array(frames.length * frameSamples)
+    frames.forEach((frame, index) => audio.set(frame, index * frameSamples))
+    return audio
+  }
+}
+
+/**
+ * Callbacks invoked as the VAD processes audio
+ */
+export interface VADCallbacks {
+  /** Called when a frame goes over `positiveSpeechThreshold` and a possible speech segment starts */
+  onSpeechStart?: (event: VADEvent) => void
+  /** Called when speech falls under `negativeSpeechThreshold` and the redemption period starts */
+  onSpeechStop?: (event: VADEvent) => void
+  /** Called when a speech segment ends, with the completed segment */
+  onSpeechEnd?: (event: VADEvent) => void
+  /** Called when a possible speech segment ends up shorter than `minSpeechFrames` and is discarded */
+  onVADMisfire?: (event: VADEvent) => void
+  /** Called for every frame run through the model, with its speech probability */
+  onFrameProcessed?: (event: VADEvent) => void
+}
+
+/**
+ * Options for a VAD stream
+ */
+export interface VADStreamOptions extends VADCallbacks {
+  /** Sample rate of the audio chunks that will be pushed, in Hz */
+  sampleRate: number
+  /** Whether to include a `Message.AudioFrame` event for every processed frame in the returned events */
+  frameEvents?: boolean
+  /** Audio to include in each detected speech segment (defaults to 'none') */
+  segmentAudio?: SegmentAudioMode
+  /** Quality of the filter used to resample input audio to 16kHz (defaults to 'medium') */
+  resampleQuality?: ResampleQuality
+}
+
+/**
+ * Event emitted by a VAD stream
+ */
+export interface VADEvent {
+  /** Type of event */
+  msg: Message
+  /** Time of the event in milliseconds since the start of the stream */
+  time: number
+  /** Position of the event in 16kHz samples since the start of the stream (`time` in samples) */
+  sampleOffset: number
+  /** Index of the frame that triggered the event (the number of processed frames for events raised by `flush`) */
+  frameIndex: number
+  /** Speech probability of the frame that triggered the event */
+  probability?: number
+  /** Detected speech segment (SpeechEnd only) */
+  segment?: SpeechSegment
+}
+
+/** Callback invoked for each message type */
+const MESSAGE_CALLBACKS: Record<Message, keyof VADCallbacks> = {
+  [Message.AudioFrame]: 'onFrameProcessed',
+  [Message.SpeechStart]: 'onSpeechStart',
+  [Message.SpeechStop]: 'onSpeechStop',
+  [Message.SpeechEnd]: 'onSpeechEnd',
+  [Message.VADMisfire]: 'onVADMisfire',
+}
+
+/**
+ * Incremental VAD session for audio that arrives in chunks
+ *
+ * Created through `VAD.createStream`. Chunks are resampled and split into frames as they arrive, and any samples that
+ * don't fill a whole frame are kept until the next chunk.
+ */
+export class VADStream {
+  /** Resampler converting the pushed audio to 16kHz frames */
+  private resampler: Resampler
+
+  /** Number of frames processed since the start of the stream */
+  private frameIndex = 0
+
+  /** Index of the frame where the current speech segment went over the positive threshold */
+  private speechStartFrame = 0
+
+  /** Index of the frame that started the current redemption period, if any */
+  private speechStopFrame: number | undefined
+
+  /** Whether a speech segment is currently open */
+  private speaking = false
+
+  /** Number of input samples pushed since the start of the stream */
+  private inputSamples = 0
+
+  /** Input chunks kept for extracting segment audio at the original sample rate */
+  private history: { offset: number; data: Float32Array }[] = []
+
+  /**
+   * Creates a new VAD stream
+   * @param frameProcessor Frame processor holding the speech detection state
+   * @param processorOptions Options the frame processor was created with
+   * @param options Stream options and callbacks
+   */
+  constructor(
+    private frameProcessor: FrameProcessor,
+    private processorOptions: FrameProcessorOptions,
+    private options: VADStreamOptions,
+  ) {
+    // Configure resampler to convert input audio to 16kHz (required by Silero VAD)
+    this.resampler = new Resampler({
+      nativeSampleRate: options.sampleRate,
       targetSampleRate: TARGET_SAMPLE_RATE, // Target for Silero VAD
-      targetFrameSize: this.options.frameSamples,
+      targetFrameSize: processorOptions.frameSamples,
+      quality: options.resampleQuality,
+    })
+  }
+
+  /**
+   * Push a chunk of audio into the stream
+   * @param chunk Audio samples at the stream's sample rate
+   * @returns Speech events detected while processing the chunk
+   */
+  async push(chunk: Float32Array): Promise<VADEvent[]> {
+    const events: VADEvent[] = []
+    for await (const event of this.events(chunk)) {
+      events.push(event)
     }
+    return events
+  }
 
-    const resampler = new Resampler(resamplerOptions)
-    let start = 0
-    let end = 0
-    let frameIndex = 0
+  /**
+   * Process a chunk of audio, yielding speech events as they are detected
+   * @param chunk Audio samples at the stream's sample rate
+   */
+  async *events(chunk: Float32Array): AsyncGenerator<VADEvent> {
+    if (this.options.segmentAudio === 'original') {
+      this.history.push({ offset: this.inputSamples, data: chunk })
+    }
+    this.inputSamples += chunk.length
 
     // Process audio frames through resampler and frame processor
-    for await (const frame of resampler.stream(inputAudio)) {
-      const { msg, audio } = await this.frameProcessor.process(frame)
+    for await (const frame of this.resampler.stream(chunk)) {
+      const { probs, msg, audio } = await this.frameProcessor.process(frame)
+      const frameIndex = this.frameIndex++
+
+      // Nothing was run through the model while the processor is paused
+      if (!probs) {
+        continue
+      }
+
+      const probability = probs.isSpeech
+      const frameStart = this.frameTime(frameIndex)
+
+      const frameEvent = this.emit({ msg: Message.AudioFrame, ...frameStart, frameIndex, probability })
+      if (this.options.frameEvents) {
+        yield frameEvent
+      }
+
+      // Speech resuming during the redemption period cancels the pending stop
+      if (probability >= this.processorOptions.positiveSpeechThreshold) {
+        this.speechStopFrame = undefined
+      }
 
       switch (msg) {
         case Message.SpeechStart:
-          // Calculate time in milliseconds based on frames processed so far at the target sample rate
-          start = (frameIndex * this.options.frameSamples) / (TARGET_SAMPLE_RATE / 1000)
+          // Remember where the segment started, in frames processed so far at the target sample rate
+          this.speechStartFrame = frameIndex
+          this.speechStopFrame = undefined
+          this.speaking = true
+          yield this.emit({ msg, ...frameStart, frameIndex, probability })
+          break
+
+        case Message.SpeechStop:
+          this.speechStopFrame = frameIndex
+          yield this.emit({ msg, ...frameStart, frameIndex, probability })
           break
 
         case Message.SpeechEnd:
-          // Calculate end time in milliseconds
-          end = ((frameIndex + 1) * this.options.frameSamples) / (TARGET_SAMPLE_RATE / 1000)
+          this.speaking = false
 
           // Yield the detected speech segment timestamps
           if (audio) {
-            yield { start, end }
+            const segment = this.createSegment(frameIndex + 1, audio)
+            yield this.emit({ msg, ...this.frameTime(frameIndex + 1), frameIndex, probability, segment })
           }
           break
-      }
 
-      frameIndex++
+        case Message.VADMisfire:
+          this.speaking = false
+          yield this.emit({ msg, ...this.frameTime(frameIndex + 1), frameIndex, probability })
+          break
+      }
     }
 
-    // Check for any remaining audio segment after processing
+    this.trimHistory()
+  }
+
+  /**
+   * End the stream, closing any speech segment that is still open
+   *
+   * Samples that don't fill a whole frame are discarded.
+   * @returns Speech events for the closed segment, if any
+   */
+  flush(): VADEvent[] {
     const { msg, audio } = this.frameProcessor.endSegment()
+    const end = this.frameTime(this.frameIndex)
+    const events: VADEvent[] = []
 
     if (msg === Message.SpeechEnd && audio && audio.length > 0) {
       // Calculate end time for the final segment
-      end = (frameIndex * this.options.frameSamples) / (TARGET_SAMPLE_RATE / 1000)
+      const segment = this.createSegment(this.frameIndex, audio)
+      events.push(this.emit({ msg, ...end, frameIndex: this.frameIndex, segment }))
+    }
 
-      yield {
-        start,
-        end,
+    if (msg === Message.VADMisfire) {
+      events.push(this.emit({ msg, ...end, frameIndex: this.frameIndex }))
+    }
+
+    this.speaking = false
+    this.history = []
+    return events
+  }
+
+  /**
+   * Build the speech segment covered by the audio the frame processor collected
+   *
+   * `start`/`end` match the collected audio (pre-speech padding and redemption frames included), while
+   * `onset`/`offset` mark where the probabilities crossed the thresholds.
+   * @param endFrame Index one past the last frame of the segment
+   * @param audio 16kHz audio the frame processor collected for the segment
+   */
+  private createSegment(endFrame: number, audio: Float32Array): SpeechSegment {
+    const end = this.frameTime(endFrame)
+    const startOffset = Math.max(0, end.sampleOffset - audio.length)
+    const segment: SpeechSegment = {
+      start: startOffset / (TARGET_SAMPLE_RATE / 1000),
+      end: end.time,
+      onset: this.frameTime(this.speechStartFrame).time,
+      offset: this.frameTime(this.speechStopFrame ?? endFrame).time,
+      startSample: this.toInputSample(startOffset),
+      endSample: this.toInputSample(end.sampleOffset),
+    }
+
+    if (this.options.segmentAudio === 'resampled') {
+      segment.audio = audio
+    } else if (this.options.segmentAudio === 'original') {
+      segment.audio = this.sliceHistory(segment.startSample as number, segment.endSample as number)
+    }
+
+    return segment
+  }
+
+  /**
+   * Convert a 16kHz sample offset to an index in the input audio
+   */
+  private toInputSample(sampleOffset: number): number {
+    return Math.min(Math.round((sampleOffset * this.options.sampleRate) / TARGET_SAMPLE_RATE), this.inputSamples)
+  }
+
+  /**
+   * Copy input samples from `start` to `end` out of the kept input chunks
+   */
+  private sliceHistory(start: number, end: number): Float32Array {
+    const out = new Float32Array(Math.max(0, end - start))
+    for (const { offset, data } of this.history) {
+      const from = Math.max(start, offset)
+      const to = Math.min(end, offset + data.length)
+      if (from < to) {
+        out.set(data.subarray(from - offset, to - offset), from - start)
       }
     }
+    return out
+  }
+
+  /**
+   * Drop kept input chunks that can no longer be part of a speech segment
+   */
+  private trimHistory(): void {
+    if (this.speaking || this.history.length === 0) {
+      return
+    }
+
+    // A new segment can start no earlier than the pre-speech padding before the next frame
+    const earliestFrame = Math.max(0, this.frameIndex - this.processorOptions.preSpeechPadFrames)
+    const earliestSample = this.toInputSample(this.frameTime(earliestFrame).sampleOffset)
+    this.history = this.history.filter(({ offset, data }) => offset + data.length > earliestSample)
+  }
+
+  /**
+   * Invoke the callback registered for an event and return the event
+   */
+  private emit(event: VADEvent): VADEvent {
+    this.options[MESSAGE_CALLBACKS[event.msg]]?.(event)
+    return event
+  }
+
+  /**
+   * Convert a frame index to a position since the start of the stream
+   */
+  private frameTime(frameIndex: number): { time: number; sampleOffset: number } {
+    const sampleOffset = frameIndex * this.processorOptions.frameSamples
+    return { time: sampleOffset / (TARGET_SAMPLE_RATE / 1000), sampleOffset }
   }
 }
@@ -0,0 +1,530 @@
+import * as fs from 'fs/promises'
+import { createReadStream } from 'fs'
+import * as path from 'path'
+import { type SpeechSegment } from './vad'
+import { getLogger, logger } from './logger'
+import { downmix, joinSegments, processAudioData, type ProcessAudioOptions, type ProcessAudioResult } from './audio'
+import { DecodeError, EncodeError } from './errors'
+
+/** WAVE format tags found in the `fmt ` chunk */
+const WAVE_FORMAT_PCM = 0x0001
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe
+
+/**
+ * Sample format of a WAV file
+ */
+export interface WAVFormat {
+  /** Integer PCM or IEEE float samples */
+  encoding: 'pcm' | 'float'
+  /** Bits per sample (8, 16, 24 or 32 for PCM; 32 or 64 for float) */
+  bitDepth: number
+  /** Number of channels */
+  channels: number
+  /** Sample rate in Hz */
+  sampleRate: number
+}
+
+/**
+ * Decoded contents of a WAV file
+ */
+export interface WAVData {
+  /** Sample format the file was stored in */
+  format: WAVFormat
+  /** Samples of each channel, normalized to [-1.0, 1.0] */
+  channelData: Float32Array[]
+}
+
+/**
+ * WAV audio read chunk by chunk
+ */
+export interface WAVStream {
+  /** Sample format of the audio */
+  format: WAVFormat
+  /** Samples of each channel, normalized to [-1.0, 1.0], for each chunk read */
+  chunks: AsyncGenerator<Float32Array[]>
+}
+
+/**
+ * Options for reading WAV audio chunk by chunk
+ */
+export interface WAVStreamOptions {
+  /**
+   * Read samples until the input ends, ignoring the size of the data chunk (defaults to false). For decoders writing
+   * WAV to a pipe, which can't know the size in advance
+   */
+  readToEnd?: boolean
+}
+
+/**
+ * Options for writing WAV files
+ */
+export interface WAVEncodeOptions {
+  /** Sample encoding to write (defaults to 'pcm') */
+  encoding?: 'pcm' | 'float'
+  /** Bits per sample: 8, 16, 24 or 32 for PCM, 32 for float (defaults to 16 for PCM and 32 for float) */
+  bitDepth?: number
+}
+
+/**
+ * Options for VAD processing of WAV files (no file saving)
+ */
+export type ProcessWAVOptions = ProcessAudioOptions
+
+/**
+ * Result of processing a WAV file for VAD (no file saving)
+ */
+export type ProcessWAVResult = ProcessAudioResult
+
+/**
+ * Parse a RIFF/WAVE file held in memory
+ *
+ * Supports PCM (8/16/24/32-bit), IEEE float (32/64-bit) and WAVE_FORMAT_EXTENSIBLE with any number of channels.
+ * Chunks other than `fmt ` and `data` (LIST, fact, padding, ...) are skipped.
+ * @param buffer Contents of the WAV file
+ * @returns Sample format and per-channel audio
+ */
+export function parseWAV(buffer: Buffer): WAVData {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new DecodeError('Not a RIFF/WAVE file')
+  }
+
+  let format: WAVFormat | undefined
+  let data: Buffer | undefined
+  let offset = 12
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4)
+    const chunkSize = buffer.readUInt32LE(offset + 4)
+    const chunkStart = offset + 8
+    // Streaming writers may leave the size unset; clamp it to the end of the file
+    const chunkEnd = Math.min(chunkStart + chunkSize, buffer.length)
+
+    if (chunkId === 'fmt ') {
+      format = parseFormatChunk(buffer.subarray(chunkStart, chunkEnd))
+    } else if (chunkId === 'data') {
+      data = buffer.subarray(chunkStart, chunkEnd)
+    }
+
+    // Chunks are padded to an even number of bytes
+    offset = chunkStart + chunkSize + (chunkSize % 2)
+  }
+
+  if (!format) {
+    throw new DecodeError('WAV file has no fmt chunk')
+  }
+  if (!data) {
+    throw new DecodeError('WAV file has no data chunk')
+  }
+
+  return { format, channelData: decodeSamples(data, format) }
+}
+
+/**
+ * Parse the `fmt ` chunk of a WAV file
+ */
+function parseFormatChunk(chunk: Buffer): WAVFormat {
+  if (chunk.length < 16) {
+    throw new DecodeError(`WAV fmt chunk is too short (${chunk.length} bytes)`)
+  }
+
+  let formatTag = chunk.readUInt16LE(0)
+  const channels = chunk.readUInt16LE(2)
+  const sampleRate = chunk.readUInt32LE(4)
+  const bitDepth = chunk.readUInt16LE(14)
+
+  // The actual format of WAVE_FORMAT_EXTENSIBLE files is the first two bytes of the sub-format GUID
+  if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+    if (chunk.length < 26) {
+      throw new DecodeError('WAV fmt chunk is too short for WAVE_FORMAT_EXTENSIBLE')
+    }
+    formatTag = chunk.readUInt16LE(24)
+  }
+
+  let encoding: WAVFormat['encoding']
+  if (formatTag === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitDepth)) {
+    encoding = 'pcm'
+  } else if (formatTag === WAVE_FORMAT_IEEE_FLOAT && [32, 64].includes(bitDepth)) {
+    encoding = 'float'
+  } else {
+    throw new DecodeError(`Unsupported WAV format: format tag 0x${formatTag.toString(16)}, ${bitDepth} bits per sample`)
+  }
+
+  if (channels < 1) {
+    throw new DecodeError('WAV file has no channels')
+  }
+  if (sampleRate < 1) {
+    throw new DecodeError('WAV file has a sample rate of 0')
+  }
+
+  return { encoding, bitDepth, channels, sampleRate }
+}
+
+/**
+ * Convert interleaved sample data to normalized per-channel arrays
+ */
+function decodeSamples(data: Buffer, format: WAVFormat): Float32Array[] {
+  const bytesPerSample = format.bitDepth / 8
+  const frameCount = Math.floor(data.length / (bytesPerSample * format.channels))
+  const channelData = Array.from({ length: format.channels }, () => new Float32Array(frameCount))
+
+  const readSample = (offset: number): number => {
+    if (format.encoding === 'float') {
+      return format.bitDepth === 32 ? data.readFloatLE(offset) : data.readDoubleLE(offset)
+    }
+
+    switch (format.bitDepth) {
+      case 8:
+        // 8-bit WAV samples are unsigned
+        return (data.readUInt8(offset) - 128) / 128
+      case 16:
+        return data.readInt16LE(offset) / 32768
+      case 24:
+        return data.readIntLE(offset, 3) / 8388608
+      default:
+        return data.readInt32LE(offset) / 2147483648
+    }
+  }
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (let channel = 0; channel < format.channels; channel++) {
+      const offset = (frame * format.channels + channel) * bytesPerSample
+      ;(channelData[channel] as Float32Array)[frame] = readSample(offset)
+    }
+  }
+
+  return channelData
+}
+
+/**
+ * Encode audio as a WAV file
+ * @param audio Mono samples, or one array per channel, in [-1.0, 1.0]
+ * @param sampleRate Sample rate in Hz
+ * @param options Output sample format
+ * @returns Contents of the WAV file
+ */
+export function encodeWAV(
+  audio: Float32Array | Float32Array[],
+  sampleRate: number,
+  options: WAVEncodeOptions = {},
+): Buffer {
+  const channelData = Array.isArray(audio) ? audio : [audio]
+  const encoding = options.encoding ?? 'pcm'
+  const bitDepth = options.bitDepth ?? (encoding === 'float' ? 32 : 16)
+
+  if (encoding === 'pcm' ? ![8, 16, 24, 32].includes(bitDepth) : bitDepth !== 32) {
+    throw new EncodeError(`Unsupported WAV output format: ${encoding}, ${bitDepth} bits per sample`)
+  }
+  if (channelData.length === 0) {
+    throw new EncodeError('No audio channels to encode')
+  }
+
+  const channels = channelData.length
+  const frameCount = Math.min(...channelData.map((channel) => channel.length))
+  const bytesPerSample = bitDepth / 8
+  const dataSize = frameCount * channels * bytesPerSample
+  const buffer = Buffer.alloc(44 + dataSize + (dataSize % 2))
+
+  // RIFF header
+  buffer.write('RIFF', 0, 'ascii')
+  buffer.writeUInt32LE(buffer.length - 8, 4)
+  buffer.write('WAVE', 8, 'ascii')
+
+  // fmt chunk
+  buffer.write('fmt ', 12, 'ascii')
+  buffer.writeUInt32LE(16, 16)
+  buffer.writeUInt16LE(encoding === 'float' ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, 20)
+  buffer.writeUInt16LE(channels, 22)
+  buffer.writeUInt32LE(sampleRate, 24)
+  buffer.writeUInt32LE(sampleRate * channels * bytesPerSample, 28)
+  buffer.writeUInt16LE(channels * bytesPerSample, 32)
+  buffer.writeUInt16LE(bitDepth, 34)
+
+  // data chunk
+  buffer.write('data', 36, 'ascii')
+  buffer.writeUInt32LE(dataSize, 40)
+
+  let offset = 44
+  for (let frame = 0; frame < frameCount; frame++) {
+    for (const channel of channelData) {
+      // Clamp to [-1.0, 1.0]
+      const sample = Math.max(-1.0, Math.min(1.0, channel[frame] as number))
+
+      if (encoding === 'float') {
+        buffer.writeFloatLE(sample, offset)
+      } else if (bitDepth === 8) {
+        buffer.writeUInt8(Math.round(sample * 127) + 128, offset)
+      } else {
+        const scale = 2 ** (bitDepth - 1) - 1
+        buffer.writeIntLE(Math.round(sample * scale), offset, bytesPerSample)
+      }
+
+      offset += bytesPerSample
+    }
+  }
+
+  return buffer
+}
+
+/**
+ * Read and parse a WAV file
+ * @param input Path to the WAV file, or its contents
+ * @returns Sample format and per-channel audio
+ */
+export async function readWAV(input: string | Buffer): Promise<WAVData> {
+  if (typeof input !== 'string') {
+    return parseWAV(input)
+  }
+
+  // First check if the file exists
+  try {
+    await fs.access(input)
+  } catch (err) {
+    throw new DecodeError(`WAV file not found: ${input}`, { path: input, cause: err })
+  }
+
+  try {
+    return parseWAV(await fs.readFile(input))
+  } catch (error) {
+    if (error instanceof DecodeError) {
+      error.path ??= input
+    }
+    throw error
+  }
+}
+
+/**
+ * Read WAV audio chunk by chunk, holding only the chunk being decoded in memory
+ *
+ * Supports the same sample formats as `parseWAV`. The `fmt ` chunk has to come before the `data` chunk.
+ * @param input Path to the WAV file, its contents, or a stream of them (e.g. a `Readable`)
+ * @param options Reading options
+ * @returns Sample format, available once the header is read, and the decoded chunks
+ */
+export async function readWAVStream(
+  input: string | Buffer | AsyncIterable<Buffer>,
+  options: WAVStreamOptions = {},
+): Promise<WAVStream> {
+  let source: AsyncIterable<Buffer> | Iterable<Buffer>
+  if (typeof input === 'string') {
+    // First check if the file exists
+    try {
+      await fs.access(input)
+    } catch (err) {
+      throw new DecodeError(`WAV file not found: ${input}`, { path: input, cause: err })
+    }
+    source = createReadStream(input)
+  } else {
+    source = Buffer.isBuffer(input) ? [input] : input
+  }
+
+  const filePath = typeof input === 'string' ? input : undefined
+  const iterator = Symbol.asyncIterator in source ? source[Symbol.asyncIterator]() : source[Symbol.iterator]()
+  let buffered: Buffer = Buffer.alloc(0)
+
+  /** Read the next piece of the input, or undefined at its end */
+  const next = async (): Promise<Buffer | undefined> => {
+    try {
+      const { value, done } = await iterator.next()
+      return done ? undefined : Buffer.from(value)
+    } catch (err) {
+      throw new DecodeError(`Failed to read WAV data: ${(err as Error).message}`, { path: filePath, cause: err })
+    }
+  }
+
+  /** Buffer at least `bytes` bytes, returning false if the input ends first */
+  const fill = async (bytes: number): Promise<boolean> => {
+    while (buffered.length < bytes) {
+      const piece = await next()
+      if (!piece) {
+        return false
+      }
+      buffered = Buffer.concat([buffered, piece])
+    }
+    return true
+  }
+
+  /** Discard `bytes` bytes without buffering them all */
+  const skip = async (bytes: number): Promise<void> => {
+    while (bytes > buffered.length) {
+      bytes -= buffered.length
+      buffered = (await next()) ?? Buffer.alloc(0)
+      if (buffered.length === 0) {
+        return
+      }
+    }
+    buffered = buffered.subarray(bytes)
+  }
+
+  try {
+    if (
+      !(await fill(12)) ||
+      buffered.toString('ascii', 0, 4) !== 'RIFF' ||
+      buffered.toString('ascii', 8, 12) !== 'WAVE'
+    ) {
+      throw new DecodeError('Not a RIFF/WAVE file', { path: filePath })
+    }
+    buffered = buffered.subarray(12)
+
+    let format: WAVFormat | undefined
+    let dataSize: number | undefined
+    while (dataSize === undefined) {
+      if (!(await fill(8))) {
+        throw new DecodeError(format ? 'WAV file has no data chunk' : 'WAV file has no fmt chunk', { path: filePath })
+      }
+
+      const chunkId = buffered.toString('ascii', 0, 4)
+      const chunkSize = buffered.readUInt32LE(4)
+      buffered = buffered.subarray(8)
+
+      if (chunkId === 'data') {
+        if (!format) {
+          throw new DecodeError('WAV file has no fmt chunk before its data chunk', { path: filePath })
+        }
+        dataSize = chunkSize
+      } else {
+        if (chunkId === 'fmt ') {
+          await fill(chunkSize)
+          format = parseFormatChunk(buffered.subarray(0, chunkSize))
+        }
+        // Chunks are padded to an even number of bytes
+        await skip(chunkSize + (chunkSize % 2))
+      }
+    }
+
+    const wavFormat = format as WAVFormat
+    const bytesPerFrame = (wavFormat.bitDepth / 8) * wavFormat.channels
+    // Streaming writers may leave the size unset
+    let remaining = options.readToEnd || dataSize === 0 || dataSize === 0xffffffff ? Infinity : dataSize
+
+    const chunks = async function* (): AsyncGenerator<Float32Array[]> {
+      try {
+        let data: Buffer = buffered
+        while (remaining >= bytesPerFrame) {
+          // Decode the whole sample frames read so far, keeping the rest for the next piece
+          const usable = Math.min(data.length, remaining)
+          const wholeFrames = usable - (usable % bytesPerFrame)
+          if (wholeFrames > 0) {
+            yield decodeSamples(data.subarray(0, wholeFrames), wavFormat)
+            remaining -= wholeFrames
+            data = data.subarray(wholeFrames)
+          }
+
+          const piece = remaining >= bytesPerFrame ? await next() : undefined
+          if (!piece) {
+            break
+          }
+          data = data.length > 0 ? Buffer.concat([data, piece]) : piece
+        }
+      } finally {
+        await iterator.return?.()
+      }
+    }
+
+    return { format: wavFormat, chunks: chunks() }
+  } catch (error) {
+    await iterator.return?.()
+    if (error instanceof DecodeError) {
+      error.path ??= filePath
+    }
+    throw error
+  }
+}
+
+/**
+ * Decode a WAV file to mono PCM audio
+ *
+ * Multichannel files are averaged to a single channel.
+ * @param input Path to the WAV file, or its contents
+ * @returns Promise containing [audioData, sampleRate]
+ */
+export async function decodeWAV(input: string | Buffer): Promise<[Float32Array, number]> {
+  const { format, channelData } = await readWAV(input)
+  const audioData = downmix(channelData, 'mean', format.sampleRate)
+  const frameCount = audioData.length
+
+  logger.debug('Decoded WAV', { samples: frameCount, sampleRate: format.sampleRate, channels: format.channels })
+  return [audioData, format.sampleRate]
+}
+
+/**
+ * Save audio to a WAV file
+ * @param audio Mono samples, or one array per channel
+ * @param sampleRate Sample rate in Hz
+ * @param outputPath Full path for the output WAV file
+ * @param options Output sample format
+ * @returns Path to the saved WAV file
+ */
+export async function saveWAVFile(
+  audio: Float32Array | Float32Array[],
+  sampleRate: number,
+  outputPath: string,
+  options: WAVEncodeOptions = {},
+): Promise<string> {
+  const wav = encodeWAV(audio, sampleRate, options)
+
+  try {
+    // Ensure output directory exists
+    await fs.mkdir(path.dirname(outputPath), { recursive: true })
+    await fs.writeFile(outputPath, wav)
+  } catch (err) {
+    throw new EncodeError(`Failed to write ${outputPath}: ${(err as Error).message}`, { path: outputPath, cause: err })
+  }
+  return outputPath
+}
+
+/**
+ * Process a WAV file with the VAD (does not save files)
+ *
+ * @param input Path to the WAV file, or its contents
+ * @param options Processing options
+ * @returns Promise with processing results (segments, times, audio data, sample rate)
+ */
+export async function processWAVFile(
+  input: string | Buffer,
+  options: ProcessWAVOptions = {},
+): Promise<ProcessWAVResult> {
+  try {
+    const { format, channelData } = await readWAV(input)
+    return await processAudioData(channelData, format.sampleRate, options)
+  } catch (error) {
+    getLogger(options.logger).error('Error processing WAV for VAD', {
+      path: typeof input === 'string' ? input : undefined,
+      error,
+    })
+    throw error
+  }
+}
+
+/**
+ * Extracts specific segments from a WAV file, adds padding, and saves them as a new WAV file.
+ * @param input Path to the input WAV file, or its contents.
+ * @param outputPath Path to save the resulting WAV file.
+ * @param segments Array of { start: number, end: number } timestamps in milliseconds.
+ *                 Exact `startSample`/`endSample` indices are used instead when the segments carry them.
+ * @param paddingMs Padding duration in milliseconds to add at the start, end, and between segments. Default is 500ms.
+ * @param options Output sample format. Default is 16-bit PCM.
+ * @returns Promise that resolves when the file is saved.
+ */
+export async function processWAVSegments(
+  input: string | Buffer,
+  outputPath: string,
+  segments: SpeechSegment[],
+  paddingMs: number = 500,
+  options: WAVEncodeOptions = {},
+): Promise<void> {
+  try {
+    const [audioData, sampleRate] = await decodeWAV(input)
+
+    // Slice the segments out of the original audio and join them with padding
+    const mergedAudio = joinSegments(audioData, sampleRate, segments, paddingMs)
+    logger.debug('Merged audio created', { samples: mergedAudio.length })
+
+    // Save the final merged audio using the original sample rate
+    await saveWAVFile(mergedAudio, sampleRate, outputPath, options)
+    logger.info('Output WAV saved', { path: outputPath })
+  } catch (error) {
+    logger.error('Error processing WAV segments', { path: typeof input === 'string' ? input : undefined, error })
+    throw error
+  }
+}
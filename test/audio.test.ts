@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test'
+import { joinSegments } from '../src/audio'
+import { EncodeError } from '../src/errors'
+
+/** One second of audio at 1kHz whose samples hold their own index */
+const indices = Float32Array.from({ length: 1000 }, (_, i) => i)
+
+describe('joinSegments', () => {
+  test('joins the segments with silence before, between and after them', () => {
+    const joined = joinSegments(
+      indices,
+      1000,
+      [
+        { start: 100, end: 103 },
+        { start: 0, end: 1, startSample: 500, endSample: 502 },
+      ],
+      2,
+    )
+    expect(Array.from(joined)).toEqual([0, 0, 100, 101, 102, 0, 0, 500, 501, 0, 0])
+  })
+
+  test('skips segments outside the audio', () => {
+    const joined = joinSegments(
+      indices,
+      1000,
+      [
+        { start: 900, end: 1100 },
+        { start: 10, end: 12 },
+      ],
+      0,
+    )
+    expect(Array.from(joined)).toEqual([10, 11])
+  })
+
+  test('throws an EncodeError when no segment lies within the audio', () => {
+    expect(() => joinSegments(indices, 1000, [], 10)).toThrow(EncodeError)
+    expect(() =>
+      joinSegments(
+        indices,
+        1000,
+        [
+          { start: 500, end: 500 },
+          { start: 2000, end: 3000 },
+        ],
+        10,
+      ),
+    ).toThrow(EncodeError)
+  })
+})
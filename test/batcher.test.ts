@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'bun:test'
+import { InferenceBatcher } from '../src/batcher'
+import { SileroState, type Silero, type SpeechProbabilities } from '../src/models'
+import { InvalidOptionsError } from '../src/errors'
+
+/**
+ * Stand-in for the model, recording the frames of each batch and scoring each frame by its first sample
+ */
+const fakeModel = (fail: (frames: Float32Array[]) => boolean = () => false) => {
+  const batches: { frames: number[]; states: SileroState[] }[] = []
+  const model = {
+    processBatch: async (frames: Float32Array[], states: SileroState[]): Promise<SpeechProbabilities[]> => {
+      batches.push({ frames: frames.map((frame) => frame[0] as number), states })
+      if (fail(frames)) {
+        throw new Error('inference failed')
+      }
+      return frames.map((frame) => ({ isSpeech: frame[0] as number, notSpeech: 1 - (frame[0] as number) }))
+    },
+  }
+  return { model: model as unknown as Silero, batches }
+}
+
+/** Frame whose first sample identifies it */
+const frame = (id: number, length = 512): Float32Array => new Float32Array(length).fill(id)
+
+describe('InferenceBatcher', () => {
+  test('runs frames submitted in the same tick as one batch', async () => {
+    const { model, batches } = fakeModel()
+    const batcher = new InferenceBatcher(model)
+    const states = [new SileroState('v5'), new SileroState('v5'), new SileroState('v5')]
+
+    const results = await Promise.all(states.map((state, index) => batcher.process(state, frame(index / 10))))
+
+    expect(batches.map(({ frames }) => frames)).toEqual([[0, 0.1, 0.2].map(Math.fround)])
+    expect(batches[0]?.states).toEqual(states)
+    expect(results.map(({ isSpeech }) => isSpeech)).toEqual([0, 0.1, 0.2].map(Math.fround))
+  })
+
+  test('runs the frames of one stream in order, one per batch', async () => {
+    const { model, batches } = fakeModel()
+    const batcher = new InferenceBatcher(model)
+    const a = new SileroState('v5')
+    const b = new SileroState('v5')
+
+    const results = await Promise.all([
+      batcher.process(a, frame(1)),
+      batcher.process(a, frame(2)),
+      batcher.process(b, frame(3)),
+      batcher.process(a, frame(4)),
+    ])
+
+    expect(batches.map(({ frames }) => frames)).toEqual([[1, 3], [2], [4]])
+    expect(batches.every(({ states }) => new Set(states).size === states.length)).toBe(true)
+    expect(results.map(({ isSpeech }) => isSpeech)).toEqual([1, 2, 3, 4])
+  })
+
+  test('splits batches at maxBatchSize and by frame length', async () => {
+    const { model, batches } = fakeModel()
+    const batcher = new InferenceBatcher(model, 2)
+
+    await Promise.all([
+      batcher.process(new SileroState('v4'), frame(1, 1536)),
+      batcher.process(new SileroState('v4'), frame(2, 512)),
+      batcher.process(new SileroState('v4'), frame(3, 1536)),
+      batcher.process(new SileroState('v4'), frame(4, 1536)),
+    ])
+
+    expect(batches.map(({ frames }) => frames)).toEqual([[1, 3], [2], [4]])
+  })
+
+  test('rejects only the frames of a failed batch', async () => {
+    const { model } = fakeModel((frames) => frames.some((frame) => frame[0] === 2))
+    const batcher = new InferenceBatcher(model)
+    const a = new SileroState('v5')
+    const b = new SileroState('v5')
+
+    const results = await Promise.allSettled([
+      batcher.process(a, frame(1)),
+      batcher.process(a, frame(2)),
+      batcher.process(b, frame(3)),
+    ])
+
+    expect(results.map(({ status }) => status)).toEqual(['fulfilled', 'rejected', 'fulfilled'])
+    // Later frames still run
+    expect((await batcher.process(a, frame(5))).isSpeech).toBe(5)
+  })
+
+  test('rejects a maxBatchSize that is not a positive integer', () => {
+    const { model } = fakeModel()
+    expect(() => new InferenceBatcher(model, 0)).toThrow(InvalidOptionsError)
+    expect(() => new InferenceBatcher(model, 1.5)).toThrow(InvalidOptionsError)
+  })
+})
@@ -0,0 +1,142 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import * as path from 'path'
+import { chunkAudio, chunkSegments, type SpeechChunk } from '../src/chunker'
+import { VAD } from '../src/vad'
+import { readWAV } from '../src/wav'
+import { InvalidOptionsError } from '../src/errors'
+
+/** 8kHz recording with speech from about 2.0s to 4.2s */
+const SPEECH_PATH = path.join(import.meta.dir, 'data', 'speech-8k.wav')
+
+/** Frame duration of 512-sample frames at 16kHz */
+const FRAME_MS = 32
+
+/** Segments with a gap inside the first chunk, one too long for a chunk and an overlapping pair at the end */
+const SEGMENTS = [
+  { start: 0, end: 4000 },
+  { start: 5000, end: 9000 },
+  { start: 9500, end: 30000 },
+  { start: 31000, end: 33000 },
+  { start: 32000, end: 34000 },
+]
+
+/** Start and end of each chunk */
+const bounds = (chunks: SpeechChunk[]): [number, number][] => chunks.map(({ start, end }) => [start, end])
+
+describe('chunkSegments', () => {
+  test('packs neighbouring segments and cuts segments too long for a chunk at the limit', () => {
+    const chunks = chunkSegments(SEGMENTS, { maxChunkDurationS: 10 })
+    expect(bounds(chunks)).toEqual([
+      [0, 9000],
+      [9500, 19500],
+      [19500, 29500],
+      [29500, 34000],
+    ])
+    expect(chunks[0]?.segments).toStrictEqual([
+      { start: 0, end: 4000 },
+      { start: 5000, end: 9000 },
+    ])
+    // The cut segment is clipped to each chunk, and overlapping segments stay together
+    expect(chunks[3]?.segments.map(({ start, end }) => [start, end])).toEqual([
+      [29500, 30000],
+      [31000, 33000],
+      [32000, 34000],
+    ])
+  })
+
+  test('clips the onset and offset of segments to their chunk', () => {
+    const chunks = chunkSegments([{ start: 0, end: 15000, onset: 500, offset: 14000 }], { maxChunkDurationS: 10 })
+    expect(chunks.map(({ segments }) => segments)).toStrictEqual([
+      [{ start: 0, end: 10000, onset: 500, offset: 10000 }],
+      [{ start: 10000, end: 15000, onset: 10000, offset: 14000 }],
+    ])
+  })
+
+  test('starts each chunk after the first with the overlap, within the limit', () => {
+    const chunks = chunkSegments(SEGMENTS, { maxChunkDurationS: 10, overlapMs: 1000 })
+    expect(bounds(chunks)).toEqual([
+      [0, 9000],
+      [8500, 18500],
+      [17500, 27500],
+      [26500, 34000],
+    ])
+    expect(chunks.every(({ start, end }) => end - start <= 10000)).toBe(true)
+  })
+
+  test('cuts long segments at the quietest frame in the second half of the chunk', () => {
+    const probabilities = Array.from({ length: 700 }, (_, frame) => (frame === 200 ? 0.2 : 0.9))
+    const chunks = chunkSegments(
+      [{ start: 0, end: 20000 }],
+      { maxChunkDurationS: 10 },
+      { probabilities, frameMs: FRAME_MS, sampleRate: 8000 },
+    )
+
+    // Frame 200 lies between 5s and 10s; the next chunk has no quieter frame, so it is cut at its last frame
+    expect(bounds(chunks)).toEqual([
+      [0, 6416],
+      [6416, 16400],
+      [16400, 20000],
+    ])
+    expect(chunks[1]).toMatchObject({ startSample: 51328, endSample: 131200 })
+    expect(chunks[1]?.segments).toStrictEqual([{ start: 6416, end: 16400, startSample: 51328, endSample: 131200 }])
+  })
+
+  test('rejects invalid lengths, listing every problem', () => {
+    expect(() => chunkSegments(SEGMENTS, { maxChunkDurationS: 10, overlapMs: 5000 })).toThrow(InvalidOptionsError)
+    try {
+      chunkSegments(SEGMENTS, { maxChunkDurationS: 0, overlapMs: -1 })
+      throw new Error('Options were accepted')
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidOptionsError)
+      expect((error as InvalidOptionsError).issues.map(({ field }) => field)).toEqual([
+        'maxChunkDurationS',
+        'overlapMs',
+      ])
+    }
+  })
+})
+
+describe('chunkAudio', () => {
+  let vad: VAD
+  let audioData: Float32Array
+
+  beforeAll(async () => {
+    vad = await VAD.create()
+    audioData = (await readWAV(SPEECH_PATH)).channelData[0] as Float32Array
+  })
+
+  test('cuts the detected speech out at the target sample rate', async () => {
+    const { chunks, segments, sampleRate } = await chunkAudio(audioData, 8000, { vadInstance: vad })
+
+    expect(sampleRate).toBe(16000)
+    expect(segments).toHaveLength(1)
+    expect(chunks).toHaveLength(1)
+    const [chunk] = chunks as [SpeechChunk]
+    expect(chunk.start).toBe(segments[0]?.start as number)
+    expect(chunk.end).toBe(segments[0]?.end as number)
+    expect(chunk.audio?.length).toBe(Math.round((chunk.end * 16000) / 1000) - Math.round((chunk.start * 16000) / 1000))
+    expect(chunk.endSample).toBe(Math.round((chunk.end * 8000) / 1000))
+  })
+
+  test('keeps every chunk within the limit', async () => {
+    const { chunks } = await chunkAudio(audioData, 8000, {
+      vadInstance: vad,
+      maxChunkDurationS: 1,
+      targetSampleRate: 8000,
+    })
+
+    expect(chunks.length).toBeGreaterThan(1)
+    for (const chunk of chunks) {
+      expect(chunk.end - chunk.start).toBeLessThanOrEqual(1000)
+      expect(Array.from(chunk.audio as Float32Array)).toEqual(
+        Array.from(audioData.subarray(chunk.startSample, chunk.endSample)),
+      )
+    }
+  })
+
+  test('rejects separate channels', async () => {
+    await expect(
+      chunkAudio([audioData, audioData], 8000, { vadInstance: vad, channelMode: 'separate' as 'mean' }),
+    ).rejects.toThrow(InvalidOptionsError)
+  })
+})
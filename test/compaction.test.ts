@@ -0,0 +1,131 @@
+import { describe, expect, test } from 'bun:test'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { compactAudio, compactAudioFile, toCompactedTime, toOriginalTime } from '../src/compaction'
+import { saveWAVFile } from '../src/wav'
+import { InvalidOptionsError } from '../src/errors'
+
+const SAMPLE_RATE = 16000
+
+/** Ten seconds of audio whose samples hold their own index, so copied samples can be traced back */
+const indices = Float32Array.from({ length: 10 * SAMPLE_RATE }, (_, i) => i)
+
+/** Segments with an overlapping pair, which is merged into one piece */
+const SEGMENTS = [
+  { start: 1000, end: 2000 },
+  { start: 1500, end: 3000 },
+  { start: 5000, end: 6000 },
+  { start: 9000, end: 9500 },
+]
+
+describe('compactAudio', () => {
+  test('joins the merged segments with gaps and maps each piece', () => {
+    const { audio, duration, map } = compactAudio(indices, SAMPLE_RATE, SEGMENTS)
+
+    // 500ms edges, 2000 + 1000 + 500ms of speech and two 500ms gaps
+    expect(audio.length).toBe(5.5 * SAMPLE_RATE)
+    expect(duration).toBe(5500)
+    expect(map).toEqual([
+      { originalStart: 1000, originalEnd: 3000, compactedStart: 500, compactedEnd: 2500 },
+      { originalStart: 5000, originalEnd: 6000, compactedStart: 3000, compactedEnd: 4000 },
+      { originalStart: 9000, originalEnd: 9500, compactedStart: 4500, compactedEnd: 5000 },
+    ])
+    for (const { originalStart, compactedStart } of map) {
+      expect(audio[(compactedStart / 1000) * SAMPLE_RATE]).toBe((originalStart / 1000) * SAMPLE_RATE)
+    }
+    expect(audio.subarray(0, 0.5 * SAMPLE_RATE).every((sample) => sample === 0)).toBe(true)
+  })
+
+  test('uses the sample indices of segments that carry them', () => {
+    const segments = [{ start: 0, end: 1, startSample: 100, endSample: 110 }]
+    const { audio, map } = compactAudio(indices, SAMPLE_RATE, segments, { gapMs: 0 })
+    expect(Array.from(audio)).toEqual(Array.from({ length: 10 }, (_, i) => 100 + i))
+    expect(map).toEqual([{ originalStart: 6.25, originalEnd: 6.875, compactedStart: 0, compactedEnd: 0.625 }])
+  })
+
+  test('fades pieces in and out of the gaps between them', () => {
+    const ones = new Float32Array(indices.length).fill(1)
+    const { audio, map } = compactAudio(ones, SAMPLE_RATE, SEGMENTS, { crossfadeMs: 20 })
+    const fade = 0.02 * SAMPLE_RATE
+
+    for (const { compactedStart, compactedEnd } of map) {
+      const from = (compactedStart / 1000) * SAMPLE_RATE
+      const to = (compactedEnd / 1000) * SAMPLE_RATE
+      expect(audio[from]).toBeLessThan(0.05)
+      expect(audio[to - 1]).toBeLessThan(0.05)
+      expect(audio.subarray(from + fade, to - fade).every((sample) => sample === 1)).toBe(true)
+    }
+  })
+
+  test('crossfades neighbouring pieces without a gap, keeping the level of constant audio', () => {
+    const ones = new Float32Array(indices.length).fill(1)
+    const { audio, map } = compactAudio(ones, SAMPLE_RATE, SEGMENTS, { gapMs: 0, edgeMs: 0, crossfadeMs: 20 })
+
+    // Each of the two splices overlaps its pieces by 20ms
+    expect(audio.length).toBe(3.46 * SAMPLE_RATE)
+    const interior = audio.subarray(0.02 * SAMPLE_RATE, audio.length - 0.02 * SAMPLE_RATE)
+    expect(Math.max(...interior.map((sample) => Math.abs(sample - 1)))).toBeLessThan(1e-6)
+
+    // The overlap is split halfway, so the pieces meet without gaps in either timeline
+    expect(map.map(({ compactedStart, compactedEnd }) => [compactedStart, compactedEnd])).toEqual([
+      [0, 1990],
+      [1990, 2970],
+      [2970, 3460],
+    ])
+    for (const entry of map) {
+      expect(entry.originalEnd - entry.originalStart).toBeCloseTo(entry.compactedEnd - entry.compactedStart, 9)
+    }
+  })
+
+  test('rejects negative or non-finite lengths', () => {
+    expect(() => compactAudio(indices, SAMPLE_RATE, SEGMENTS, { gapMs: -1 })).toThrow(InvalidOptionsError)
+    expect(() => compactAudio(indices, SAMPLE_RATE, SEGMENTS, { crossfadeMs: Infinity })).toThrow(InvalidOptionsError)
+  })
+})
+
+describe('toOriginalTime and toCompactedTime', () => {
+  const { map } = compactAudio(indices, SAMPLE_RATE, SEGMENTS)
+
+  test('convert times inside pieces both ways', () => {
+    for (const time of [1000, 1234.5, 3000, 5500, 9000, 9499]) {
+      expect(toOriginalTime(map, toCompactedTime(map, time))).toBe(time)
+    }
+    expect(toOriginalTime(map, 3250)).toBe(5250)
+    expect(toCompactedTime(map, 9250)).toBe(4750)
+  })
+
+  test('snap times in removed silence to the nearest piece edge', () => {
+    expect(toCompactedTime(map, 0)).toBe(500)
+    expect(toCompactedTime(map, 3500)).toBe(2500)
+    expect(toCompactedTime(map, 4500)).toBe(3000)
+    expect(toCompactedTime(map, 9800)).toBe(5000)
+    expect(toOriginalTime(map, 2700)).toBe(3000)
+    expect(toOriginalTime(map, 2800)).toBe(5000)
+    expect(toOriginalTime(map, 5400)).toBe(9500)
+  })
+
+  test('leave times unchanged without pieces', () => {
+    expect(toOriginalTime([], 1234)).toBe(1234)
+    expect(toCompactedTime([], 1234)).toBe(1234)
+  })
+})
+
+describe('compactAudioFile', () => {
+  test('saves raw float samples for .f32 paths', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'vad-compaction-'))
+    try {
+      const input = path.join(directory, 'input.wav')
+      const output = path.join(directory, 'compacted.f32')
+      const audioData = indices.map((sample) => (sample % 100) / 100)
+      await saveWAVFile(audioData, SAMPLE_RATE, input, { encoding: 'float' })
+
+      const { audio } = await compactAudioFile(input, output, SEGMENTS, { gapMs: 0, edgeMs: 0 })
+      const saved = await fs.readFile(output)
+      expect(saved.length).toBe(audio.length * 4)
+      expect(saved.readFloatLE(4 * 100)).toBe(audio[100] as number)
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, test } from 'bun:test'
+import { spawn, type ChildProcess } from 'child_process'
+import * as path from 'path'
+import { streamAudioSegments, type AudioDecoder } from '../src/decoders'
+import { ModelLoadError } from '../src/errors'
+
+/** Decoder processes started by the tests */
+const children: ChildProcess[] = []
+
+/** Decoder running a child process that only stops once its chunks have been read to the end */
+const processDecoder: AudioDecoder = {
+  name: 'process',
+  extensions: ['raw'],
+  decode: async () => ({ audioData: new Float32Array(16000), sampleRate: 16000 }),
+  decodeStream: async () => {
+    const child = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 60000)'], { stdio: 'ignore' })
+    children.push(child)
+    const chunks = async function* (): AsyncGenerator<Float32Array[]> {
+      try {
+        yield [new Float32Array(16000)]
+      } finally {
+        child.kill()
+      }
+    }
+    return { sampleRate: 16000, channels: 1, chunks: chunks() }
+  },
+}
+
+afterEach(() => {
+  children.splice(0).forEach((child) => child.kill())
+})
+
+describe('streamAudioSegments', () => {
+  test('starts no decoder when the VAD fails to be created', async () => {
+    const segments = streamAudioSegments('silence.raw', {
+      decoder: processDecoder,
+      modelPath: path.join(import.meta.dir, 'data', 'missing.onnx'),
+    })
+    await expect(segments.next()).rejects.toThrow(ModelLoadError)
+
+    // The VAD is created before the decoder starts, so it never does
+    expect(children).toHaveLength(0)
+  })
+
+  test('stops the decoder once the audio has been read', async () => {
+    for await (const segment of streamAudioSegments('silence.raw', { decoder: processDecoder })) {
+      throw new Error(`Speech detected in silence at ${segment.start}ms`)
+    }
+
+    expect(children).toHaveLength(1)
+    expect(children.every((child) => child.killed)).toBe(true)
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, expect, test } from 'bun:test'
+import { spawnSync } from 'child_process'
+import * as path from 'path'
+import { formatSegments, parseSegments, SEGMENT_FORMATS, type SegmentFormat } from '../src/formats'
+import { InvalidOptionsError, SegmentParseError } from '../src/errors'
+
+/** Segments on whole milliseconds, the precision of the text formats */
+const SEGMENTS = [
+  { start: 250, end: 1750 },
+  { start: 3000, end: 4125 },
+]
+
+describe('formatSegments and parseSegments', () => {
+  for (const format of SEGMENT_FORMATS) {
+    test(`round-trips ${format}`, () => {
+      const parsed = parseSegments(formatSegments(SEGMENTS, format), format)
+      expect(parsed.map(({ start, end }) => ({ start, end }))).toEqual(SEGMENTS)
+    })
+  }
+
+  test('keeps channels through the formats that carry them', () => {
+    const segments = [
+      { start: 0, end: 1000, channel: 0 },
+      { start: 500, end: 1500, channel: 1 },
+    ]
+    for (const format of ['json', 'csv', 'rttm', 'audacity', 'textgrid'] as const) {
+      expect(parseSegments(formatSegments(segments, format), format).map(({ channel }) => channel)).toEqual([0, 1])
+    }
+  })
+
+  test('rejects unsupported formats', () => {
+    const format = 'xml' as SegmentFormat
+    expect(() => formatSegments(SEGMENTS, format)).toThrow(InvalidOptionsError)
+    expect(() => parseSegments('', format)).toThrow(InvalidOptionsError)
+  })
+
+  test('rejects malformed JSON', () => {
+    for (const text of ['[{"start": 0,', '{"start": 0, "end": 1}']) {
+      expect(() => parseSegments(text, 'json')).toThrow(SegmentParseError)
+    }
+  })
+
+  test('rejects JSON elements that are not segments, naming the element', () => {
+    for (const [text, element] of [
+      ['[{"start": 0, "end": 1}, {}]', 'element 1'],
+      ['[{"start": "a", "end": 1}]', 'element 0'],
+      ['[{"start": 0, "end": 1}, 42]', 'element 1'],
+      ['[{"start": 2, "end": 1}]', 'element 0'],
+      ['[{"file": "a.wav", "segments": [{"start": 0, "end": null}]}]', 'element 0, segment 0'],
+    ] as const) {
+      expect(() => parseSegments(text, 'json')).toThrow(SegmentParseError)
+      expect(() => parseSegments(text, 'json')).toThrow(element)
+    }
+  })
+})
+
+describe('reading the output of the detect command', () => {
+  /** 8kHz recording with speech from about 2.0s to 4.2s */
+  const speechPath = path.join(import.meta.dir, 'data', 'speech-8k.wav')
+
+  /** Run `vad-node detect` on the recording in a format */
+  const detect = (format: SegmentFormat): string => {
+    const cli = path.join(import.meta.dir, '..', 'src', 'cli.ts')
+    const { stdout, status } = spawnSync(process.execPath, [cli, 'detect', '-f', format, speechPath], {
+      encoding: 'utf8',
+    })
+    expect(status).toBe(0)
+    return stdout
+  }
+
+  test('parses the same segments from its JSON, CSV and RTTM output', () => {
+    const json = parseSegments(detect('json'), 'json')
+    expect(json).toHaveLength(1)
+    expect(json[0]?.fileId).toBe(speechPath)
+
+    // The text formats keep whole milliseconds
+    const times = json.map(({ start, end }) => ({ start: Math.round(start), end: Math.round(end) }))
+    for (const format of ['csv', 'rttm'] as const) {
+      expect(parseSegments(detect(format), format).map(({ start, end }) => ({ start, end }))).toEqual(times)
+    }
+  })
+})
+
+describe('parse errors', () => {
+  /** Parse text expecting a SegmentParseError, returning it */
+  const parseFailure = (text: string, format: SegmentFormat): SegmentParseError => {
+    try {
+      parseSegments(text, format)
+    } catch (error) {
+      expect(error).toBeInstanceOf(SegmentParseError)
+      return error as SegmentParseError
+    }
+    throw new Error(`${format} text parsed without an error`)
+  }
+
+  test('carry the line of an invalid time', () => {
+    for (const [format, text, line] of [
+      ['csv', 'start,end\n\n0.5,1.0\n1.5,soon\n', 4],
+      ['rttm', 'SPEAKER a 1 0.5 1.0 <NA> <NA> s <NA> <NA>\nSPEAKER a 1 x 1.0 <NA> <NA> s <NA> <NA>\n', 2],
+      ['audacity', '0.5\t1.0\tspeech\n\\ 100 200\n1.5\t\tspeech\n', 3],
+    ] as const) {
+      const error = parseFailure(text, format)
+      expect(error).toMatchObject({ format, line })
+      expect(error.message).toContain(`line ${line}: invalid time`)
+    }
+  })
+
+  test('carry the line of an invalid channel', () => {
+    for (const [format, text, line] of [
+      ['csv', 'start,end,channel\n0.5,1.0,0\n1.5,2.0,left\n', 3],
+      ['csv', 'start,end,channel\n0.5,1.0,-1\n', 2],
+      ['rttm', 'SPEAKER a x 0.5 1.0 <NA> <NA> s <NA> <NA>\n', 1],
+      ['rttm', 'SPEAKER a 1 0.5 1.0 <NA> <NA> s <NA> <NA>\nSPEAKER a 0 1.5 1.0 <NA> <NA> s <NA> <NA>\n', 2],
+    ] as const) {
+      const error = parseFailure(text, format)
+      expect(error).toMatchObject({ format, line })
+      expect(error.message).toContain(`line ${line}: invalid channel`)
+    }
+  })
+
+  test('carry the line of a TextGrid interval', () => {
+    const text = formatSegments(SEGMENTS, 'textgrid').replace('xmin = 3', 'xmin = 3e')
+    const lines = text.split('\n')
+    const error = parseFailure(text, 'textgrid')
+    expect(error.format).toBe('textgrid')
+    expect(lines[(error.line as number) - 1]).toMatch(/intervals \[\d+\]:/)
+    expect(lines[error.line as number]).toContain('xmin = 3e')
+  })
+
+  test('reject text that is not in the format', () => {
+    expect(parseFailure('begin,finish\n0,1\n', 'csv')).toMatchObject({ format: 'csv', line: 1 })
+    expect(parseFailure('00:00:01.000 --> 00:00:02.000\nspeech\n', 'vtt')).toMatchObject({ format: 'vtt', line: 1 })
+    expect(parseFailure('SPEAKER a 1 0.5\n', 'rttm')).toMatchObject({ format: 'rttm', line: 1 })
+    expect(parseFailure('xmin = 0\n', 'textgrid')).toMatchObject({ format: 'textgrid', line: undefined })
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, test } from 'bun:test'
+import { decodeALaw, decodeMuLaw, encodeALaw, encodeMuLaw, decodeG711, encodeG711 } from '../src/g711'
+
+/** Every 16-bit sample value step of `step`, normalized to [-1.0, 1.0) */
+const sweep = (step: number): Float32Array =>
+  Float32Array.from({ length: Math.floor(65536 / step) }, (_, i) => (-32768 + i * step) / 32768)
+
+describe('G.711', () => {
+  test('decodes the reference µ-law codes', () => {
+    const samples = decodeMuLaw(Uint8Array.from([0xff, 0x7f, 0x80, 0x00]))
+    // 0x7f is negative zero
+    expect(Array.from(samples).map((sample) => Math.round(sample * 32768) || 0)).toEqual([0, 0, 32124, -32124])
+  })
+
+  test('decodes the reference A-law codes', () => {
+    const samples = decodeALaw(Uint8Array.from([0xd5, 0x55, 0xaa, 0x2a]))
+    expect(Array.from(samples).map((sample) => Math.round(sample * 32768))).toEqual([8, -8, 32256, -32256])
+  })
+
+  for (const law of ['mulaw', 'alaw'] as const) {
+    test(`${law} re-encodes every code to itself`, () => {
+      const codes = Uint8Array.from({ length: 256 }, (_, i) => i)
+      const reencoded = Array.from(encodeG711(decodeG711(codes, law), law))
+      const decodedAgain = decodeG711(Uint8Array.from(reencoded), law)
+      // µ-law has two codes for zero
+      expect(decodedAgain).toEqual(decodeG711(codes, law))
+    })
+
+    test(`${law} keeps the quantization error within the segment step`, () => {
+      const input = sweep(7)
+      const output = decodeG711(law === 'mulaw' ? encodeMuLaw(input) : encodeALaw(input), law)
+      // Steps double with each segment, so the error stays within 1/16 of the value (or the smallest step)
+      const excess = input.map(
+        (value, i) => Math.abs((output[i] as number) - value) - Math.max(16 / 32768, Math.abs(value) / 16),
+      )
+      expect(Math.max(...excess)).toBeLessThanOrEqual(0)
+    })
+  }
+
+  test('clamps samples outside [-1, 1]', () => {
+    expect(Array.from(encodeMuLaw(Float32Array.from([2, -2])))).toEqual(
+      Array.from(encodeMuLaw(Float32Array.from([1, -1]))),
+    )
+    expect(Array.from(encodeALaw(Float32Array.from([2, -2])))).toEqual(
+      Array.from(encodeALaw(Float32Array.from([1, -1]))),
+    )
+  })
+})
@@ -0,0 +1,157 @@
+import { beforeAll, describe, expect, test } from 'bun:test'
+import { EventEmitter } from 'events'
+import * as path from 'path'
+import { VAD } from '../src/vad'
+import { readWAV } from '../src/wav'
+import { encodeMuLaw } from '../src/g711'
+import { Message } from '../src/messages'
+import { DecodeError } from '../src/errors'
+import { MediaStreamAdapter, type MediaStreamCall, type MediaStreamEvent } from '../src/media-stream'
+
+/** 8kHz recording with speech from about 2.0s to 4.2s */
+const SPEECH_PATH = path.join(import.meta.dir, 'data', 'speech-8k.wav')
+
+/** Samples of a 20ms media message at 8kHz */
+const MEDIA_SAMPLES = 160
+
+let vad: VAD
+let payloads: string[]
+
+beforeAll(async () => {
+  vad = await VAD.create()
+  const { channelData } = await readWAV(SPEECH_PATH)
+  const audio = encodeMuLaw(channelData[0] as Float32Array)
+  payloads = []
+  for (let offset = 0; offset < audio.length; offset += MEDIA_SAMPLES) {
+    payloads.push(audio.subarray(offset, offset + MEDIA_SAMPLES).toString('base64'))
+  }
+})
+
+/**
+ * Send the messages of a Twilio media stream through a stand-in socket, resolving once the adapter stops the stream
+ */
+const runCall = async (adapter: MediaStreamAdapter, streamSid: string, track = 'inbound'): Promise<void> => {
+  const socket = new EventEmitter()
+  adapter.attach(socket)
+  const stopped = new Promise<void>((resolve) =>
+    adapter.on('stop', (call) => call.streamSid === streamSid && resolve()),
+  )
+
+  socket.emit('message', JSON.stringify({ event: 'connected', protocol: 'Call', version: '1.0.0' }))
+  socket.emit(
+    'message',
+    Buffer.from(
+      JSON.stringify({
+        event: 'start',
+        streamSid,
+        start: {
+          streamSid,
+          callSid: `CA-${streamSid}`,
+          tracks: [track],
+          customParameters: { agent: '42' },
+          mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: 8000, channels: 1 },
+        },
+      }),
+    ),
+  )
+  payloads.forEach((payload, index) =>
+    socket.emit(
+      'message',
+      JSON.stringify({ event: 'media', streamSid, sequenceNumber: index, media: { track, payload } }),
+    ),
+  )
+  socket.emit('message', JSON.stringify({ event: 'stop', streamSid }))
+  await stopped
+}
+
+describe('MediaStreamAdapter', () => {
+  test('detects speech in the media messages of a stream', async () => {
+    const adapter = new MediaStreamAdapter(vad)
+    const started: MediaStreamCall[] = []
+    const events: MediaStreamEvent[] = []
+    adapter.on('start', (call) => started.push(call))
+    adapter.on('event', (event) => events.push(event))
+
+    await runCall(adapter, 'MZ1')
+
+    expect(started).toEqual([
+      { streamSid: 'MZ1', callSid: 'CA-MZ1', encoding: 'mulaw', sampleRate: 8000, customParameters: { agent: '42' } },
+    ])
+    const segments = events.filter((event) => event.msg === Message.SpeechEnd)
+    expect(segments).toHaveLength(1)
+    const [end] = segments as [MediaStreamEvent]
+    expect(end).toMatchObject({ streamSid: 'MZ1', callSid: 'CA-MZ1', track: 'inbound' })
+    expect(end.segment?.start).toBeGreaterThan(1500)
+    expect(end.segment?.start).toBeLessThan(2500)
+    expect(end.segment?.end).toBeGreaterThan(3800)
+    expect(end.segment?.end).toBeLessThan(4800)
+    expect(adapter.activeStreams).toEqual([])
+  })
+
+  test('keeps concurrent streams apart', async () => {
+    const adapter = new MediaStreamAdapter(vad)
+    const events: MediaStreamEvent[] = []
+    adapter.on('event', (event) => event.msg === Message.SpeechEnd && events.push(event))
+
+    await Promise.all([runCall(adapter, 'MZ1'), runCall(adapter, 'MZ2', 'outbound')])
+
+    expect(events.map(({ streamSid, track }) => `${streamSid}/${track}`).sort()).toEqual([
+      'MZ1/inbound',
+      'MZ2/outbound',
+    ])
+    const [first, second] = events as [MediaStreamEvent, MediaStreamEvent]
+    expect(first.segment?.start).toBe(second.segment?.start as number)
+    expect(first.segment?.end).toBe(second.segment?.end as number)
+  })
+
+  test('ignores tracks that are not selected', async () => {
+    const adapter = new MediaStreamAdapter(vad, { tracks: ['outbound'] })
+    const events: MediaStreamEvent[] = []
+    adapter.on('event', (event) => events.push(event))
+
+    await runCall(adapter, 'MZ1', 'inbound')
+
+    expect(events).toEqual([])
+  })
+
+  test('emits DecodeErrors for malformed messages', async () => {
+    const adapter = new MediaStreamAdapter(vad)
+    const socket = new EventEmitter()
+    const errors: Error[] = []
+    adapter.on('error', (error) => errors.push(error))
+    adapter.attach(socket)
+
+    socket.emit('message', 'not json')
+    socket.emit('message', '42')
+    socket.emit('message', JSON.stringify({ event: 'start', start: {} }))
+    socket.emit(
+      'message',
+      JSON.stringify({
+        event: 'start',
+        streamSid: 'MZ1',
+        start: { mediaFormat: { encoding: 'audio/opus', sampleRate: 48000 } },
+      }),
+    )
+    await adapter.stop('MZ1')
+
+    expect(errors).toHaveLength(4)
+    expect(errors.every((error) => error instanceof DecodeError)).toBe(true)
+    expect(adapter.activeStreams).toEqual([])
+  })
+
+  test('stops the streams of a socket when it closes', async () => {
+    const adapter = new MediaStreamAdapter(vad)
+    const socket = new EventEmitter()
+    const stopped: string[] = []
+    adapter.on('stop', (call) => stopped.push(call.streamSid))
+    adapter.attach(socket)
+
+    socket.emit('message', JSON.stringify({ event: 'start', streamSid: 'MZ1', start: {} }))
+    await adapter.handleMessage({ event: 'media', streamSid: 'MZ1', media: { payload: payloads[0] as string } })
+    expect(adapter.activeStreams).toEqual(['MZ1'])
+
+    socket.emit('close')
+    await adapter.stop('MZ1')
+    expect(stopped).toEqual(['MZ1'])
+  })
+})
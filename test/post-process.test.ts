@@ -0,0 +1,173 @@
+import { describe, expect, test } from 'bun:test'
+import { postProcessSegments, SegmentPostProcessor, type PostProcessOptions } from '../src/post-process'
+import { Message } from '../src/messages'
+import { InvalidOptionsError } from '../src/errors'
+import type { SpeechSegment, VADEvent } from '../src/vad'
+
+/** Frame duration of 512-sample frames at 16kHz */
+const FRAME_MS = 32
+
+/** Start and end of each segment */
+const times = (segments: SpeechSegment[]): [number, number][] => segments.map(({ start, end }) => [start, end])
+
+describe('postProcessSegments', () => {
+  test('merges segments of a channel separated by less than minSilenceDurationMs', () => {
+    const segments = [
+      { start: 0, end: 1000 },
+      { start: 1200, end: 2000 },
+      { start: 2500, end: 3000 },
+    ]
+    expect(times(postProcessSegments(segments, { minSilenceDurationMs: 300 }))).toEqual([
+      [0, 2000],
+      [2500, 3000],
+    ])
+    // Overlapping segments are merged even without a minimum silence
+    expect(times(postProcessSegments([...segments, { start: 800, end: 1500 }], {}))).toEqual([
+      [0, 2000],
+      [2500, 3000],
+    ])
+  })
+
+  test('keeps channels apart', () => {
+    const segments = [
+      { start: 0, end: 1000, channel: 0 },
+      { start: 1100, end: 2000, channel: 1 },
+      { start: 1200, end: 1500, channel: 0 },
+    ]
+    // Merged segments without offsets don't gain an offset key
+    expect(postProcessSegments(segments, { minSilenceDurationMs: 500 })).toStrictEqual([
+      { start: 0, end: 1500, channel: 0 },
+      { start: 1100, end: 2000, channel: 1 },
+    ])
+  })
+
+  test('drops segments shorter than minSpeechDurationMs after merging', () => {
+    const segments = [
+      { start: 0, end: 100 },
+      { start: 150, end: 250 },
+      { start: 1000, end: 1100 },
+    ]
+    expect(times(postProcessSegments(segments, { minSilenceDurationMs: 100, minSpeechDurationMs: 200 }))).toEqual([
+      [0, 250],
+    ])
+  })
+
+  test('splits long segments at the quietest frame in the second half of the limit', () => {
+    const probabilities = Array.from({ length: 400 }, (_, frame) => (frame === 100 ? 0.1 : 0.9))
+    const [first, second, third] = postProcessSegments(
+      [{ start: 0, end: 10000, onset: 200 }],
+      { maxSpeechDurationS: 4 },
+      { probabilities, frameMs: FRAME_MS },
+    ) as SpeechSegment[]
+
+    // Frame 100 lies between 2s and 4s; the next piece has no quiet frame, so it is cut at its last frame
+    expect(first).toEqual({ start: 0, end: 3216, onset: 200, offset: 3216 })
+    expect(second).toEqual({ start: 3216, end: 7216, onset: 3216, offset: 7216 })
+    expect(third).toEqual({ start: 7216, end: 10000, onset: 7216 })
+  })
+
+  test('keeps the onset and offset of each piece inside it when splitting', () => {
+    // The offset falls inside the first piece and the onset inside the second
+    const pieces = postProcessSegments([{ start: 0, end: 10000, onset: 5000, offset: 3500 }], { maxSpeechDurationS: 4 })
+
+    expect(pieces).toHaveLength(3)
+    for (const { start, end, onset, offset } of pieces) {
+      expect(start).toBeLessThanOrEqual(onset as number)
+      expect(onset).toBeLessThanOrEqual(offset as number)
+      expect(offset).toBeLessThanOrEqual(end)
+    }
+    expect(pieces.at(-1)).toEqual({ start: 8000, end: 10000, onset: 8000, offset: 8000 })
+  })
+
+  test('splits exactly at the limit without frame probabilities, leaving room for padding', () => {
+    const segments = postProcessSegments(
+      [{ start: 1000, end: 11000 }],
+      { maxSpeechDurationS: 4, speechPadMs: 500 },
+      { duration: 11200 },
+    )
+    expect(times(segments)).toEqual([
+      [500, 4000],
+      [4000, 7000],
+      [7000, 10000],
+      [10000, 11200],
+    ])
+    expect(segments.every(({ start, end }) => end - start <= 4000)).toBe(true)
+  })
+
+  test('shares the silence between neighbours when padding and updates sample indices', () => {
+    const segments = [
+      { start: 1000, end: 2000, startSample: 1, endSample: 2 },
+      { start: 2300, end: 3000 },
+    ]
+    expect(postProcessSegments(segments, { speechPadMs: 500 }, { duration: 3200, sampleRate: 8000 })).toEqual([
+      { start: 500, end: 2150, startSample: 4000, endSample: 17200 },
+      { start: 2150, end: 3200, startSample: 17200, endSample: 25600 },
+    ])
+  })
+
+  test('rejects invalid options, listing every problem', () => {
+    try {
+      postProcessSegments([], { minSilenceDurationMs: -1, speechPadMs: 600, maxSpeechDurationS: 1 })
+      throw new Error('Options were accepted')
+    } catch (error) {
+      expect(error).toBeInstanceOf(InvalidOptionsError)
+      expect((error as InvalidOptionsError).issues.map(({ field }) => field)).toEqual([
+        'minSilenceDurationMs',
+        'maxSpeechDurationS',
+      ])
+    }
+  })
+})
+
+describe('SegmentPostProcessor', () => {
+  test('produces the same segments as postProcessSegments on the whole stream', () => {
+    const speech = [
+      [10, 40],
+      [45, 60],
+      [150, 200],
+      [280, 290],
+    ] as const
+    const frames = 320
+    const isSpeech = (frame: number) => speech.some(([start, end]) => frame >= start && frame < end)
+    const probabilities = Array.from({ length: frames }, (_, frame) =>
+      isSpeech(frame) ? (frame % 7 === 0 ? 0.6 : 0.9) : 0.1,
+    )
+
+    // VAD events: each frame, with speech starting and ending on the frames of `speech`
+    const event = (msg: Message, frameIndex: number, segment?: SpeechSegment): VADEvent => ({
+      msg,
+      time: frameIndex * FRAME_MS,
+      sampleOffset: frameIndex * 512,
+      frameIndex,
+      probability: probabilities[frameIndex],
+      segment,
+    })
+    const events: VADEvent[] = []
+    const segments: SpeechSegment[] = []
+    for (let frame = 0; frame < frames; frame++) {
+      events.push(event(Message.AudioFrame, frame))
+      const starting = speech.find(([start]) => start === frame)
+      const ending = speech.find(([, end]) => end === frame)
+      if (starting) {
+        events.push(event(Message.SpeechStart, frame))
+      }
+      if (ending) {
+        const segment = { start: ending[0] * FRAME_MS, end: ending[1] * FRAME_MS }
+        segments.push(segment)
+        events.push(event(Message.SpeechEnd, frame, segment))
+      }
+    }
+
+    const options: PostProcessOptions = { minSilenceDurationMs: 300, speechPadMs: 100, maxSpeechDurationS: 1 }
+    const processor = new SegmentPostProcessor(options, FRAME_MS, 0)
+    const released: SpeechSegment[][] = events.map((event) => processor.push(event))
+    const streamed = [...released.flat(), ...processor.end(frames * FRAME_MS)]
+
+    expect(streamed).toEqual(
+      postProcessSegments(segments, options, { probabilities, frameMs: FRAME_MS, duration: frames * FRAME_MS }),
+    )
+    expect(streamed.every(({ start, end }) => end - start <= 1000)).toBe(true)
+    // Segments are released during the stream, not only at its end
+    expect(released.filter((segments) => segments.length > 0).length).toBeGreaterThan(1)
+  })
+})
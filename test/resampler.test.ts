@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test'
+import { Resampler } from '../src/resampler'
+import { InvalidOptionsError } from '../src/errors'
+
+/** Concatenate the frames of a resampler */
+const concat = (frames: Float32Array[]): Float32Array => {
+  const out = new Float32Array(frames.reduce((total, frame) => total + frame.length, 0))
+  frames.forEach((frame, index) => out.set(frame, index * (frames[0] as Float32Array).length))
+  return out
+}
+
+/** Sine wave of `frequency` Hz */
+const sine = (frequency: number, sampleRate: number, length: number): Float32Array =>
+  Float32Array.from({ length }, (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate))
+
+/** Root mean square of a range of samples */
+const rms = (samples: Float32Array): number =>
+  Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length)
+
+describe('Resampler', () => {
+  test('rejects sample rates that are not positive integers', () => {
+    for (const [nativeSampleRate, targetSampleRate] of [
+      [0, 16000],
+      [16000, 0],
+      [-8000, 16000],
+      [44100.5, 16000],
+    ] as const) {
+      expect(() => new Resampler({ nativeSampleRate, targetSampleRate, targetFrameSize: 512 })).toThrow(
+        InvalidOptionsError,
+      )
+    }
+  })
+
+  test('passes samples through unchanged at the same rate', () => {
+    const input = sine(440, 16000, 2048)
+    const output = concat(
+      new Resampler({ nativeSampleRate: 16000, targetSampleRate: 16000, targetFrameSize: 512 }).process(input),
+    )
+    expect(output).toEqual(input)
+  })
+
+  test('emits whole frames in proportion to the rate ratio', () => {
+    const resampler = new Resampler({ nativeSampleRate: 48000, targetSampleRate: 16000, targetFrameSize: 512 })
+    const frames = resampler.process(new Float32Array(48000))
+    expect(frames.every((frame) => frame.length === 512)).toBe(true)
+    // One second of input, minus the filter delay, as whole frames
+    expect(frames.length).toBe(31)
+  })
+
+  test('keeps tones under the target Nyquist frequency', () => {
+    const output = concat(
+      new Resampler({ nativeSampleRate: 44100, targetSampleRate: 16000, targetFrameSize: 1024 }).process(
+        sine(1000, 44100, 44100),
+      ),
+    )
+    const steady = output.subarray(1024, output.length - 1024)
+    expect(rms(steady)).toBeCloseTo(Math.SQRT1_2, 2)
+
+    // Compare with the expected tone at the output rate, allowing for the filter's delay
+    const expected = sine(1000, 16000, output.length)
+    const correlation = steady.reduce((sum, sample, i) => sum + sample * (expected[i + 1024] as number), 0)
+    const lag = Math.acos(Math.min(1, Math.max(-1, correlation / (steady.length / 2))))
+    expect(lag).toBeLessThan(Math.PI / 4)
+  })
+
+  test('removes tones over the target Nyquist frequency', () => {
+    const output = concat(
+      new Resampler({ nativeSampleRate: 48000, targetSampleRate: 16000, targetFrameSize: 1024 }).process(
+        sine(12000, 48000, 48000),
+      ),
+    )
+    expect(rms(output.subarray(1024))).toBeLessThan(0.01)
+  })
+
+  test('produces the same output when streamed in blocks', async () => {
+    const input = sine(300, 8000, 8000)
+    const whole = concat(
+      new Resampler({ nativeSampleRate: 8000, targetSampleRate: 16000, targetFrameSize: 256 }).process(input),
+    )
+    const resampler = new Resampler({ nativeSampleRate: 8000, targetSampleRate: 16000, targetFrameSize: 256 })
+    const frames: Float32Array[] = []
+    for (let offset = 0; offset < input.length; offset += 333) {
+      frames.push(...resampler.process(input.subarray(offset, offset + 333)))
+    }
+    expect(concat(frames)).toEqual(whole)
+  })
+})
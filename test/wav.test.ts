@@ -0,0 +1,94 @@
+import { describe, expect, test } from 'bun:test'
+import { Readable } from 'stream'
+import { encodeWAV, parseWAV, readWAVStream } from '../src/wav'
+import { DecodeError, EncodeError } from '../src/errors'
+
+/** Ramp from -1 to 1 */
+const ramp = (length: number): Float32Array => Float32Array.from({ length }, (_, i) => -1 + (2 * i) / (length - 1))
+
+/** Split a buffer into pieces of `size` bytes */
+function* pieces(buffer: Buffer, size: number): Generator<Buffer> {
+  for (let offset = 0; offset < buffer.length; offset += size) {
+    yield buffer.subarray(offset, offset + size)
+  }
+}
+
+describe('encodeWAV and parseWAV', () => {
+  for (const [encoding, bitDepth, tolerance] of [
+    // Within two steps of the integer formats
+    ['pcm', 8, 2 ** -6],
+    ['pcm', 16, 2 ** -14],
+    ['pcm', 24, 2 ** -22],
+    ['pcm', 32, 1e-7],
+    ['float', 32, 1e-7],
+  ] as const) {
+    test(`round-trips stereo ${bitDepth}-bit ${encoding}`, () => {
+      const left = ramp(1001)
+      const right = left.map((sample) => -sample / 2)
+      const { format, channelData } = parseWAV(encodeWAV([left, right], 22050, { encoding, bitDepth }))
+
+      expect(format).toEqual({ encoding, bitDepth, channels: 2, sampleRate: 22050 })
+      for (const [index, expected] of [left, right].entries()) {
+        const decoded = channelData[index] as Float32Array
+        expect(decoded.length).toBe(expected.length)
+        expect(Math.max(...decoded.map((sample, i) => Math.abs(sample - (expected[i] as number))))).toBeLessThanOrEqual(
+          tolerance,
+        )
+      }
+    })
+  }
+
+  test('clamps samples outside [-1, 1]', () => {
+    const { channelData } = parseWAV(encodeWAV(Float32Array.from([2, -2, 0.5]), 8000))
+    const [high, low, half] = channelData[0] as Float32Array
+    expect(high).toBeCloseTo(1, 4)
+    expect(low).toBeCloseTo(-1, 4)
+    expect(half).toBeCloseTo(0.5, 4)
+  })
+
+  test('rejects unsupported output formats', () => {
+    expect(() => encodeWAV(ramp(10), 8000, { encoding: 'float', bitDepth: 64 })).toThrow(EncodeError)
+    expect(() => encodeWAV(ramp(10), 8000, { bitDepth: 12 })).toThrow(EncodeError)
+    expect(() => encodeWAV([], 8000)).toThrow(EncodeError)
+  })
+
+  test('rejects headers without a sample rate or channels', () => {
+    const noRate = encodeWAV(ramp(10), 8000)
+    noRate.writeUInt32LE(0, 24)
+    expect(() => parseWAV(noRate)).toThrow(DecodeError)
+
+    const noChannels = encodeWAV(ramp(10), 8000)
+    noChannels.writeUInt16LE(0, 22)
+    expect(() => parseWAV(noChannels)).toThrow(DecodeError)
+  })
+
+  test('rejects files that are not WAV or have no data', () => {
+    expect(() => parseWAV(Buffer.from('ID3 not a wav file at all, really not'))).toThrow(DecodeError)
+    expect(() => parseWAV(encodeWAV(ramp(10), 8000).subarray(0, 36))).toThrow(DecodeError)
+  })
+})
+
+describe('readWAVStream', () => {
+  test('decodes the same samples as parseWAV when read in small pieces', async () => {
+    const wav = encodeWAV([ramp(5000), ramp(5000).reverse()], 16000, { bitDepth: 24 })
+    const { format, chunks } = await readWAVStream(Readable.from(pieces(wav, 1001)))
+
+    const left: number[] = []
+    const right: number[] = []
+    for await (const [l, r] of chunks) {
+      left.push(...(l as Float32Array))
+      right.push(...(r as Float32Array))
+    }
+
+    const expected = parseWAV(wav)
+    expect(format).toEqual(expected.format)
+    expect(left).toEqual(Array.from(expected.channelData[0] as Float32Array))
+    expect(right).toEqual(Array.from(expected.channelData[1] as Float32Array))
+  })
+
+  test('rejects a header with a sample rate of 0', async () => {
+    const wav = encodeWAV(ramp(10), 8000)
+    wav.writeUInt32LE(0, 24)
+    await expect(readWAVStream(wav)).rejects.toThrow(DecodeError)
+  })
+})